@@ -140,9 +140,17 @@ const sCurveControlPoints: THREE.Vector3[] = [
   new THREE.Vector3(0, 0, 108),
 ];
 
-// Per-segment speeds (length = points.length-1).
+// Per-segment speeds (length = points.length-1, or points.length when closed
+// so the last entry covers the seam from the last point back to the first).
 let segSpeeds: number[] = [10, 10, 10, 10, 10, 10, 10, 10, 10];
 
+// Closed circuits join the last control point back to the first
+let isTrackClosed = false;
+
+// Track labels from the loaded file (kept for re-export)
+let trackName = '';
+let trackDate = '';
+
 // Arc-length data
 let sampledPts: THREE.Vector3[] = [];
 let cumLen: number[] = [];
@@ -154,27 +162,77 @@ let sAtPoint: number[] = [];
 // Turn angles at each interior point (degrees)
 let turnAngle: number[] = [];
 
-// Hardcoded values from the path editor's UI for speed calculation
-let angleSpeedMultipliers = {
-  p0_20: 100,
-  p20_45: 90,
-  p45_90: 75,
-  p90_120: 60,
-  p120_150: 10,
-  p150_165: 5,
-  p165_180: 1,
-};
-let speedWindowParams = {
-  wPrevStart: 0.625,
-  wPrevEnd: 1.0,
-  wNextHold: 0,
-  wNextAccel: 0.5,
-};
+// Bank (roll) at each control point, in degrees. Positive rolls to the right
+// (right edge down) when looking along the direction of travel.
+let bankAtPoint: number[] = [];
+// Bank at each sampled point (radians), interpolated between control points
+let sampledBank: number[] = [];
+
 let tension = 0.85;
 
+// Speed model: 'angle' = turn-angle windows, 'physics' = curvature based
+type SpeedModel = 'angle' | 'physics';
+
+interface SpeedProfileConfig {
+  model: SpeedModel;
+  speedMultiplier: number; // global scale on top of the baked profile
+  // Min speed at a turn (% of the slower neighbouring segment) by turn angle
+  anglePercents: {
+    p0_20: number;
+    p20_45: number;
+    p45_90: number;
+    p90_120: number;
+    p120_150: number;
+    p150_165: number;
+    p165_180: number;
+  };
+  // Slowdown/speed-up windows, normalized to the segment length
+  windows: {
+    wPrevStart: number;
+    wPrevEnd: number;
+    wNextHold: number;
+    wNextAccel: number;
+  };
+  physics: {
+    maxLateralAccel: number; // m/s²
+    maxAccel: number; // m/s²
+    maxBraking: number; // m/s²
+  };
+}
+
+// Defaults match the path editor's UI (and the inputs in index.html)
+const speedProfileConfig: SpeedProfileConfig = {
+  model: 'angle',
+  speedMultiplier: 1,
+  anglePercents: {
+    p0_20: 100,
+    p20_45: 90,
+    p45_90: 75,
+    p90_120: 60,
+    p120_150: 10,
+    p150_165: 5,
+    p165_180: 1,
+  },
+  windows: {
+    wPrevStart: 0.625,
+    wPrevEnd: 1.0,
+    wNextHold: 0,
+    wNextAccel: 0.5,
+  },
+  physics: {
+    maxLateralAccel: 6,
+    maxAccel: 3,
+    maxBraking: 5,
+  },
+};
+
+// Baked ride speed (m/s) at each sampled point, indexed like cumLen
+let speedProfile = new Float32Array(0);
+const CURVATURE_WINDOW_SAMPLES = 25; // ~0.5 m either side at 0.02 m sampling
+
 let rideCurve = new THREE.CatmullRomCurve3(
   sCurveControlPoints,
-  false,
+  isTrackClosed,
   'catmullrom',
   tension
 );
@@ -231,17 +289,23 @@ sCurveControlPoints.forEach((point, index) => {
 });
 scene.add(curvePointMarkersGroup);
 
+/* Anti-z-fighting lift at distance s. Open tracks ramp up all the way; a
+   closed circuit ramps up to halfway and back down so the seam matches. */
+function rampHeightAtS(s: number) {
+  const heightScale = parseFloat(heightScaleInput.value) || 0;
+  const rampS = isTrackClosed ? Math.min(s, Math.max(0, totalLen - s)) : s;
+  return rampS * heightScale;
+}
+
 function regenerateCurvePointMarkers() {
   // Clear existing markers
   while (curvePointMarkersGroup.children.length) {
     curvePointMarkersGroup.remove(curvePointMarkersGroup.children[0]);
   }
 
-  const heightScale = parseFloat(heightScaleInput.value) || 0;
-
   sCurveControlPoints.forEach((point, index) => {
     // Calculate the correct elevated position for the marker, just like the path editor does.
-    const pointHeight = (sAtPoint[index] || 0) * heightScale;
+    const pointHeight = rampHeightAtS(sAtPoint[index] || 0);
     const elevatedPos = new THREE.Vector3(
       point.x,
       point.y + pointHeight,
@@ -255,6 +319,7 @@ function regenerateCurvePointMarkers() {
     });
     const sphere = new THREE.Mesh(sphereGeometry, sphereMaterial);
     sphere.position.copy(elevatedPos); // Use the elevated position
+    sphere.userData.pointIndex = index; // picked by the track editor
     curvePointMarkersGroup.add(sphere);
 
     const canvas = document.createElement('canvas');
@@ -296,28 +361,124 @@ const cameraHeightOffset = 0.4;
 let rideProgressT = 0;
 let rideProgressS = 0; // New: progress in meters (arc length)
 let isRideActive = false; // Let's default to active for easier testing
+let isRidePaused = false; // ride frozen in place; see PAUSE / RESUME
 let isRideLooping = false;
+let currentLap = 1;
+let lapTarget = 3; // laps to finish a closed-circuit ride (0 = endless)
+let rideElapsedSeconds = 0;
 const frameClock = new THREE.Clock();
 
 let cameraOffsetMin = -0.25;
 let cameraOffsetMax = 0.25;
 let cameraOffsetCurrent = 0;
 /* ============================================================================
-   SECTION: GYROSCOPE STATE (ROLL CONTROL - GAMMA)
+   SECTION: GYROSCOPE STATE (ROLL CONTROL - DEVICE QUATERNION)
 ============================================================================ */
 
 let isGyroEnabled = false;
-// Roll (gamma) control state
-let rollBaselineDegrees = 0; // baseline set by "Center"
-let rollDegreesSmoothed = 0; // smoothed gamma
+// Roll control state. Orientation is kept as quaternions (device → world);
+// roll is measured against the baseline captured by "Center".
+const deviceQuaternion = new THREE.Quaternion();
+let gyroBaselineDeviceQuaternion: THREE.Quaternion | null = null;
+let rollDegreesSmoothed = 0; // smoothed roll relative to baseline
 let rollRelativeDegreesSmoothed = 0; // relative to baseline, smoothed
-let yawLowPassAlpha = 0.15; // reuse smoothing alpha var
 let rawGyroAlpha = 0,
   rawGyroBeta = 0,
   rawGyroGamma = 0; // For HUD
 let yawSensitivity = 1.0; // keep existing naming for UI wiring
-const maxRollDegrees = 45; // steering lock
-let rollSign = 1; // invert when in landscape-secondary
+
+// How gyro roll (degrees) becomes the normalized steering value
+interface SteeringProfile {
+  deadZoneDegrees: number; // ignored either side of centre
+  expo: number; // 0 = linear, 1 = fully cubic (soft centre, sharp edges)
+  lockDegrees: number; // roll that reaches full lock
+  rollSmoothing: number; // low-pass alpha on raw roll (1 = none)
+  relativeSmoothing: number; // second low-pass alpha on the relative roll
+  recenterDelaySeconds: number; // steady hold before drift correction kicks in
+  recenterDegreesPerSecond: number; // drift correction speed (0 = off)
+}
+
+type SteeringPresetId = 'classic' | 'precise' | 'relaxed' | 'twitchy';
+
+const STEERING_PRESETS: Record<
+  SteeringPresetId,
+  { label: string; profile: SteeringProfile }
+> = {
+  classic: {
+    label: 'Classic',
+    profile: {
+      deadZoneDegrees: 0,
+      expo: 0,
+      lockDegrees: 45,
+      rollSmoothing: 0.15,
+      relativeSmoothing: 0.12,
+      recenterDelaySeconds: 8,
+      recenterDegreesPerSecond: 0,
+    },
+  },
+  precise: {
+    label: 'Precise',
+    profile: {
+      deadZoneDegrees: 1.5,
+      expo: 0.4,
+      lockDegrees: 40,
+      rollSmoothing: 0.2,
+      relativeSmoothing: 0.15,
+      recenterDelaySeconds: 6,
+      recenterDegreesPerSecond: 0.5,
+    },
+  },
+  relaxed: {
+    label: 'Relaxed',
+    profile: {
+      deadZoneDegrees: 3,
+      expo: 0.25,
+      lockDegrees: 55,
+      rollSmoothing: 0.1,
+      relativeSmoothing: 0.08,
+      recenterDelaySeconds: 5,
+      recenterDegreesPerSecond: 1,
+    },
+  },
+  twitchy: {
+    label: 'Twitchy',
+    profile: {
+      deadZoneDegrees: 0.5,
+      expo: 0,
+      lockDegrees: 30,
+      rollSmoothing: 0.35,
+      relativeSmoothing: 0.3,
+      recenterDelaySeconds: 10,
+      recenterDegreesPerSecond: 0,
+    },
+  },
+};
+
+let steeringProfile: SteeringProfile = { ...STEERING_PRESETS.classic.profile };
+// Drift compensation: offset subtracted from the relative roll, grown slowly
+// while the roll is held steady
+let rollDriftOffsetDegrees = 0;
+let rollSteadySeconds = 0;
+let lastShapedRollDegrees = 0;
+
+// Per-device roll range from the calibration wizard; overrides the profile
+// lock angle separately for each side (see GYRO RANGE CALIBRATION)
+interface GyroRangeCalibration {
+  leftDegrees: number; // roll magnitude at full left
+  rightDegrees: number; // roll magnitude at full right
+  savedAt: string;
+}
+let gyroRangeCalibration: GyroRangeCalibration | null = null;
+
+// Session recorder / replay (see GYRO SESSION RECORDER + REPLAY)
+let isGyroRecordingEnabled = false;
+let activeGyroRecording: GyroSession | null = null;
+let activeGyroRecordingStartMs = 0;
+let lastGyroRecording: GyroSession | null = null;
+let loadedGyroSession: GyroSession | null = null;
+let isGyroReplayActive = false;
+let gyroReplayClockMs = 0;
+let gyroReplayNextEvent = 0;
 
 // (kept for compatibility if referenced; not used with roll)
 const yawQuaternionTemp = new THREE.Quaternion();
@@ -330,25 +491,51 @@ const worldYAxis = new THREE.Vector3(0, 1, 0);
 function clampNumber(value: number, lo: number, hi: number) {
   return Math.min(Math.max(value, lo), hi);
 }
+function finiteOr(value: unknown, fallback: number) {
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : fallback;
+}
 function shortestAngleDifferenceDegrees(a: number, b: number) {
   return ((a - b + 540) % 360) - 180;
 }
+function fileSafeName(name: string, fallback: string) {
+  return name.replace(/[^\w-]+/g, '_') || fallback;
+}
+function downloadJson(fileName: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
 
 /* ============================================================================
    SECTION: ORIENTATION-AWARE HEADING → SCREEN-ALIGNED YAW
 ============================================================================ */
 /* Orientation-aware roll control */
-let isLandscape = false;
+let screenOrientationAngle = 0;
 
+function readScreenOrientationAngle(): number {
+  // screen.orientation.angle is the standard source (0, 90, 180, 270);
+  // window.orientation (0, 90, -90, 180) covers older iOS Safari.
+  const angle = screen.orientation?.angle ?? window.orientation ?? 0;
+  return Number.isFinite(angle) ? angle : 0;
+}
 function updateOrientationState() {
-  // window.orientation is a simple and widely supported way to check
-  // 0 = portrait, 90 = landscape-primary, -90 = landscape-secondary
-  const orientation = window.orientation || 0;
-  isLandscape = Math.abs(orientation) === 90;
-
-  // In landscape-secondary, the beta axis is inverted relative to the user
-  rollSign = orientation === -90 ? -1 : 1;
-  dbg(`Orientation updated: isLandscape=${isLandscape}, rollSign=${rollSign}`);
+  const orientation = readScreenOrientationAngle();
+  if (isGyroReplayActive) return; // the replay drives orientation
+  if (orientation !== screenOrientationAngle) {
+    recordGyroSessionEvent({ type: 'orientation', angle: orientation });
+  }
+  applyScreenOrientationAngle(orientation);
+}
+function applyScreenOrientationAngle(orientation: number) {
+  screenOrientationAngle = orientation;
+  dbg(`Orientation updated: screen angle=${orientation}°`);
 }
 function updateRollSign() {
   updateOrientationState();
@@ -358,6 +545,7 @@ updateRollSign();
 // Resize is a good fallback for when orientationchange doesn't fire reliably on load.
 window.addEventListener('orientationchange', updateRollSign, { passive: true });
 window.addEventListener('resize', updateRollSign, { passive: true });
+screen.orientation?.addEventListener('change', updateRollSign);
 
 /* ============================================================================
    SECTION: DEVICE ORIENTATION → RELATIVE ROLL (SMOOTHED)
@@ -370,39 +558,144 @@ function computeAbsoluteHeadingDegrees(): number | null {
 function handleDeviceOrientationEvent(
   e: DeviceOrientationEvent & Partial<{ webkitCompassHeading: number }>
 ) {
-  rawGyroAlpha = e.alpha ?? 0;
-  rawGyroBeta = e.beta ?? 0;
-  rawGyroGamma = e.gamma ?? 0;
-  if (typeof e.gamma !== 'number') return;
-  if (typeof e.beta !== 'number') return;
-
-  // In portrait, roll is controlled by gamma.
-  // In landscape, the user's "roll" motion corresponds to the beta value.
-  // We also apply the rollSign correction for landscape-secondary here.
-  let rawRoll: number;
-  if (isLandscape) {
-    let betaRoll = e.beta * rollSign;
-    // Fold beta into a stable [-90, 90] range to avoid the
-    // sudden ±170/180° jumps when crossing ±90°.
-    if (betaRoll > 90) betaRoll = 180 - betaRoll;
-    if (betaRoll < -90) betaRoll = -180 - betaRoll;
-    rawRoll = betaRoll;
-  } else {
-    rawRoll = e.gamma;
+  if (isGyroReplayActive) return; // the replay owns the pipeline
+  recordGyroSessionEvent({
+    type: 'sample',
+    alpha: e.alpha,
+    beta: e.beta,
+    gamma: e.gamma,
+  });
+  processOrientationSample(e.alpha, e.beta, e.gamma);
+}
+
+/* Raw alpha/beta/gamma → smoothed relative roll. Shared by live events and
+   recorded-session replay, so both go through identical smoothing. */
+function processOrientationSample(
+  alpha: number | null,
+  beta: number | null,
+  gamma: number | null
+) {
+  rawGyroAlpha = alpha ?? 0;
+  rawGyroBeta = beta ?? 0;
+  rawGyroGamma = gamma ?? 0;
+  if (typeof gamma !== 'number') return;
+  if (typeof beta !== 'number') return;
+  lastGyroSampleAt = performance.now();
+
+  deviceQuaternionFromEuler(rawGyroAlpha, beta, gamma, deviceQuaternion);
+  if (!gyroBaselineDeviceQuaternion) {
+    gyroBaselineDeviceQuaternion = deviceQuaternion.clone();
   }
+  const rawRoll = rollRelativeToBaselineDegrees(
+    deviceQuaternion,
+    gyroBaselineDeviceQuaternion
+  );
 
   // Smooth the raw roll value
-  const smoothed =
-    rollDegreesSmoothed + (rawRoll - rollDegreesSmoothed) * yawLowPassAlpha;
-  rollDegreesSmoothed = smoothed;
-
-  // Relative to baseline. The rollSign is now part of the rawRoll calculation.
-  const relative = rollDegreesSmoothed - rollBaselineDegrees;
+  rollDegreesSmoothed =
+    rollDegreesSmoothed +
+    (rawRoll - rollDegreesSmoothed) * steeringProfile.rollSmoothing;
 
   // Extra smoothing for relative value
   rollRelativeDegreesSmoothed =
     rollRelativeDegreesSmoothed +
-    (relative - rollRelativeDegreesSmoothed) * 0.12;
+    (rollDegreesSmoothed - rollRelativeDegreesSmoothed) *
+      steeringProfile.relativeSmoothing;
+}
+
+const gyroEulerTemp = new THREE.Euler();
+const gyroScreenTwistTemp = new THREE.Quaternion();
+const gyroCurrentScreenTemp = new THREE.Quaternion();
+const gyroBaselineScreenTemp = new THREE.Quaternion();
+const gyroDeltaTemp = new THREE.Quaternion();
+const gyroRollAxisTemp = new THREE.Vector3();
+const gyroWorldUp = new THREE.Vector3(0, 0, 1);
+const gyroScreenNormal = new THREE.Vector3(0, 0, 1);
+const gyroScreenRight = new THREE.Vector3();
+const gyroBaselineRight = new THREE.Vector3();
+const gyroYawAlignTemp = new THREE.Quaternion();
+
+/* DeviceOrientationEvent angles → device-to-world quaternion. The spec
+   defines R = Rz(alpha) · Rx(beta) · Ry(gamma) in an east-north-up frame,
+   which is exactly three's intrinsic 'ZXY' Euler order. */
+function deviceQuaternionFromEuler(
+  alpha: number,
+  beta: number,
+  gamma: number,
+  target: THREE.Quaternion
+): THREE.Quaternion {
+  gyroEulerTemp.set(
+    THREE.MathUtils.degToRad(beta),
+    THREE.MathUtils.degToRad(gamma),
+    THREE.MathUtils.degToRad(alpha),
+    'ZXY'
+  );
+  return target.setFromEuler(gyroEulerTemp);
+}
+
+/* Rotates a device quaternion into the screen frame, so x always points to
+   the right edge of the picture the player sees, whatever the screen angle. */
+function screenQuaternionFromDevice(
+  device: THREE.Quaternion,
+  target: THREE.Quaternion
+): THREE.Quaternion {
+  gyroScreenTwistTemp.setFromAxisAngle(
+    gyroScreenNormal,
+    -THREE.MathUtils.degToRad(screenOrientationAngle)
+  );
+  return target.copy(device).multiply(gyroScreenTwistTemp);
+}
+
+/* Steering roll in degrees (positive = right edge down) between the current
+   and baseline orientations: the twist of the world-space delta rotation
+   about the horizontal axis perpendicular to the screen x axis. The
+   baseline is first turned about world up to the current heading, so the
+   player turning round (or compass drift) doesn't leak pitch into the
+   roll. Pitching the device towards or away from the player does not
+   contribute either, so roll stays stable however it is held. */
+function rollRelativeToBaselineDegrees(
+  current: THREE.Quaternion,
+  baseline: THREE.Quaternion
+): number {
+  screenQuaternionFromDevice(current, gyroCurrentScreenTemp);
+  screenQuaternionFromDevice(baseline, gyroBaselineScreenTemp);
+
+  // Heading = direction of screen x in the horizontal plane; rolling about
+  // the horizontal axis and pitching both leave it unchanged
+  gyroScreenRight.set(1, 0, 0).applyQuaternion(gyroCurrentScreenTemp);
+  gyroBaselineRight.set(1, 0, 0).applyQuaternion(gyroBaselineScreenTemp);
+  if (
+    Math.hypot(gyroScreenRight.x, gyroScreenRight.y) > 1e-3 &&
+    Math.hypot(gyroBaselineRight.x, gyroBaselineRight.y) > 1e-3
+  ) {
+    gyroYawAlignTemp.setFromAxisAngle(
+      gyroWorldUp,
+      Math.atan2(gyroScreenRight.y, gyroScreenRight.x) -
+        Math.atan2(gyroBaselineRight.y, gyroBaselineRight.x)
+    );
+    gyroBaselineScreenTemp.premultiply(gyroYawAlignTemp);
+  }
+
+  gyroDeltaTemp
+    .copy(gyroBaselineScreenTemp)
+    .invert()
+    .premultiply(gyroCurrentScreenTemp);
+
+  gyroScreenRight.set(1, 0, 0).applyQuaternion(gyroBaselineScreenTemp);
+  gyroRollAxisTemp.crossVectors(gyroWorldUp, gyroScreenRight);
+  if (gyroRollAxisTemp.lengthSq() < 1e-6) return 0; // screen x is vertical
+  gyroRollAxisTemp.normalize();
+
+  const projection =
+    gyroDeltaTemp.x * gyroRollAxisTemp.x +
+    gyroDeltaTemp.y * gyroRollAxisTemp.y +
+    gyroDeltaTemp.z * gyroRollAxisTemp.z;
+  let degrees = THREE.MathUtils.radToDeg(
+    2 * Math.atan2(projection, gyroDeltaTemp.w)
+  );
+  if (degrees > 180) degrees -= 360;
+  if (degrees < -180) degrees += 360;
+  return degrees;
 }
 
 async function enableGyroscope(): Promise<boolean> {
@@ -439,1299 +732,4629 @@ function disableGyroscope() {
   dbg('Gyro disabled');
 }
 function centerGyroscopeHeading() {
-  rollBaselineDegrees = rollDegreesSmoothed;
-  rollRelativeDegreesSmoothed = 0;
+  if (isGyroReplayActive) {
+    dbg('Gyro center ignored during replay');
+    return;
+  }
+  recordGyroSessionEvent({ type: 'calibrate' });
+  applyGyroCenter();
   dbg('Gyro centered');
 }
+function applyGyroCenter() {
+  // Until the first sample arrives the baseline is taken from it instead
+  gyroBaselineDeviceQuaternion =
+    lastGyroSampleAt > 0 ? deviceQuaternion.clone() : null;
+  rollDegreesSmoothed = 0;
+  rollRelativeDegreesSmoothed = 0;
+  resetRollDriftCompensation();
+}
 
 /* ============================================================================
-   SECTION: HUD / TARGET MAPPING
+   SECTION: STEERING INPUT SOURCES (GYRO / KEYBOARD / POINTER / GAMEPAD)
 ============================================================================ */
 
-let targetCenterNormalized = 0;
-let targetWidthNormalized = 0.2;
-let targetCenterNormalizedSmoothed = 0; // New: for smoothed target movement
-let targetSmoothingAlpha = 0.02; // New: smoothing factor
-
-/* ============================================================================
-   SECTION: CAMERA + LEAD MARKER PLACEMENT
-============================================================================ */
+// Every source reports a normalized roll (-1 = full left, 1 = full right at
+// full lock) that renderLoop turns into needleNormalized.
+type SteeringSourceId = 'gyro' | 'replay' | 'keyboard' | 'pointer' | 'gamepad';
 
-function placeCameraAtPathT(pathT: number) {
-  const clampedT = THREE.MathUtils.clamp(pathT, 0, 1);
+interface SteeringSource {
+  id: SteeringSourceId;
+  label: string;
+  isAvailable(): boolean;
+  read(deltaSeconds: number): number;
+}
 
-  // --- START: FIX for Sinking Camera and Late Slowdown ---
-  // Find the index on the *final, height-adjusted* sampled points array.
-  const s = rideProgressS;
-  const idx = distanceToIndex(s);
-  const positionOnCurve = sampledPts[idx]; // Use the elevated point
-  const tangentOnCurve =
-    idx < sampledPts.length - 1
-      ? new THREE.Vector3().subVectors(sampledPts[idx + 1], sampledPts[idx])
-      : new THREE.Vector3().subVectors(sampledPts[idx], sampledPts[idx - 1]);
-  tangentOnCurve.normalize();
-  // --- END: FIX ---
+const GYRO_STALE_MS = 1000; // gyro counts as unavailable after this silence
+const GAMEPAD_DEAD_ZONE = 0.1;
+const POINTER_FULL_LOCK_FRACTION = 0.25; // drag this share of the width for ±1
+
+let lastGyroSampleAt = -Infinity;
+let steeringSourceSetting: SteeringSourceId | 'auto' = 'auto';
+let activeSteeringSourceId: SteeringSourceId = 'keyboard';
+let steeringRollNormalized = 0;
+// Last time each manual source saw input, used by auto fallback
+const steeringActivityAt: Record<SteeringSourceId, number> = {
+  gyro: -Infinity,
+  replay: -Infinity,
+  keyboard: -Infinity,
+  pointer: -Infinity,
+  gamepad: -Infinity,
+};
 
-  // Use the chase-cam positioning from the path editor, plus a lateral offset driven by the HUD needle.
-  const backVector = tangentOnCurve.clone().negate();
-  const sideVector = new THREE.Vector3()
-    .crossVectors(tangentOnCurve, worldYAxis)
-    .normalize();
-  const lateralOffset = sideVector.multiplyScalar(cameraOffsetCurrent);
-
-  const cameraPosition = positionOnCurve
-    .clone()
-    .addScaledVector(backVector, 0.5)
-    .add(new THREE.Vector3(0, 0.25, 0))
-    .add(lateralOffset);
-  rideCamera.position.copy(cameraPosition);
-  const pointWeLookAt = positionOnCurve
-    .clone()
-    .addScaledVector(tangentOnCurve, 5); // Look 5m ahead of the point on the curve
-  rideCamera.lookAt(pointWeLookAt);
+// Keyboard: held keys ramp the roll towards ±1 and back to centre
+let keyboardRampPerSecond = 3;
+let keyboardRoll = 0;
+const heldSteeringKeys = new Set<string>();
+const LEFT_KEYS = ['ArrowLeft', 'KeyA'];
+const RIGHT_KEYS = ['ArrowRight', 'KeyD'];
+
+// Pointer: horizontal drag distance from where the press started
+let pointerDragStartX: number | null = null;
+let pointerRoll = 0;
+
+const steeringSources: Record<SteeringSourceId, SteeringSource> = {
+  gyro: {
+    id: 'gyro',
+    label: 'Gyro',
+    isAvailable: () =>
+      isGyroEnabled && performance.now() - lastGyroSampleAt < GYRO_STALE_MS,
+    read: (deltaSeconds) => shapeGyroRoll(deltaSeconds),
+  },
+  replay: {
+    id: 'replay',
+    label: 'Gyro Replay',
+    isAvailable: () => isGyroReplayActive,
+    read: (deltaSeconds) => {
+      advanceGyroReplay(deltaSeconds);
+      return shapeGyroRoll(deltaSeconds);
+    },
+  },
+  keyboard: {
+    id: 'keyboard',
+    label: 'Keyboard',
+    isAvailable: () => true,
+    read: (deltaSeconds) => {
+      const left = LEFT_KEYS.some((k) => heldSteeringKeys.has(k));
+      const right = RIGHT_KEYS.some((k) => heldSteeringKeys.has(k));
+      const target = (right ? 1 : 0) - (left ? 1 : 0);
+      const step = keyboardRampPerSecond * deltaSeconds;
+      keyboardRoll += clampNumber(target - keyboardRoll, -step, step);
+      return keyboardRoll;
+    },
+  },
+  pointer: {
+    id: 'pointer',
+    label: 'Mouse/Touch Drag',
+    isAvailable: () => true,
+    read: () => pointerRoll,
+  },
+  gamepad: {
+    id: 'gamepad',
+    label: 'Gamepad',
+    isAvailable: () => !!firstConnectedGamepad(),
+    read: () => {
+      const pad = firstConnectedGamepad();
+      const x = pad?.axes[0] ?? 0;
+      if (Math.abs(x) < GAMEPAD_DEAD_ZONE) return 0;
+      steeringActivityAt.gamepad = performance.now();
+      // Rescale so the stick leaves the dead zone at 0 rather than jumping
+      return (
+        (Math.sign(x) * (Math.abs(x) - GAMEPAD_DEAD_ZONE)) /
+        (1 - GAMEPAD_DEAD_ZONE)
+      );
+    },
+  },
+};
 
-  const yawRadians = THREE.MathUtils.degToRad(
-    clampNumber(
-      -rollRelativeDegreesSmoothed * yawSensitivity,
-      -maxRollDegrees,
-      maxRollDegrees
-    )
-  );
-  if (isGyroEnabled) {
-    yawQuaternionTemp.setFromAxisAngle(worldYAxis, yawRadians);
-    rideCamera.quaternion.premultiply(yawQuaternionTemp);
+function firstConnectedGamepad(): Gamepad | null {
+  if (!navigator.getGamepads) return null;
+  for (const pad of navigator.getGamepads()) {
+    if (pad && pad.connected) return pad;
   }
+  return null;
+}
 
-  // --- START: FIX for erratic lead marker ---
-  // Use a constant look-ahead distance in meters, not a parametric offset.
-  const leadDistanceMeters = parseFloat(leadDistanceInput.value) || 2.0;
-  const aheadS = (rideProgressS + leadDistanceMeters) % totalLen;
-  const aheadIdx = distanceToIndex(aheadS);
-  const aheadPoint = sampledPts[aheadIdx]; // Get point from the correct, elevated path
-  const aheadTangent =
-    aheadIdx < sampledPts.length - 1
-      ? new THREE.Vector3().subVectors(
-          sampledPts[aheadIdx + 1],
-          sampledPts[aheadIdx]
-        )
-      : new THREE.Vector3().subVectors(
-          sampledPts[aheadIdx],
-          sampledPts[aheadIdx - 1]
-        );
-  aheadTangent.normalize();
-  // --- END: FIX ---
+/* Auto mode: a loaded gyro replay, then the gyro when it is delivering
+   samples, else the manual source used most recently (keyboard until
+   something else is touched) */
+function resolveSteeringSource(): SteeringSourceId {
+  if (steeringSourceSetting !== 'auto') return steeringSourceSetting;
+  if (steeringSources.replay.isAvailable()) return 'replay';
+  if (steeringSources.gyro.isAvailable()) return 'gyro';
+  let best: SteeringSourceId = 'keyboard';
+  (['keyboard', 'pointer', 'gamepad'] as const).forEach((id) => {
+    if (
+      steeringSources[id].isAvailable() &&
+      steeringActivityAt[id] > steeringActivityAt[best]
+    ) {
+      best = id;
+    }
+  });
+  return best;
+}
 
-  // Position the lead marker mesh at the calculated ahead point
-  leadMarkerMesh.position.copy(aheadPoint);
-  leadMarkerMesh.lookAt(aheadPoint.clone().add(aheadTangent));
+/* Read the active source once per frame; returns the normalized roll */
+function updateSteeringInput(deltaSeconds: number): number {
+  // Poll the keyboard and gamepad every frame so auto mode sees their
+  // activity and the keyboard ramp does not jump when sources switch
+  const keyboardValue = steeringSources.keyboard.read(deltaSeconds);
+  const gamepadValue = steeringSources.gamepad.read(deltaSeconds);
+  const id = resolveSteeringSource();
+  if (id !== activeSteeringSourceId) {
+    activeSteeringSourceId = id;
+    dbg(`Steering source: ${steeringSources[id].label}`);
+  }
+  if (id === 'keyboard') steeringRollNormalized = keyboardValue;
+  else if (id === 'gamepad') steeringRollNormalized = gamepadValue;
+  else steeringRollNormalized = steeringSources[id].read(deltaSeconds);
+  if (steeringSourceActiveElement) {
+    const label = steeringSources[id].label;
+    if (steeringSourceActiveElement.textContent !== label) {
+      steeringSourceActiveElement.textContent = label;
+    }
+  }
+  return steeringRollNormalized;
+}
 
-  const yawNow = Math.atan2(tangentOnCurve.x, tangentOnCurve.z);
-  const yawAhead = Math.atan2(aheadTangent.x, aheadTangent.z);
-  const deltaYawRad =
-    THREE.MathUtils.euclideanModulo(yawAhead - yawNow + Math.PI, Math.PI * 2) -
-    Math.PI;
-  const deltaYawDeg = THREE.MathUtils.radToDeg(deltaYawRad);
-  targetCenterNormalized = clampNumber(-deltaYawDeg / maxRollDegrees, -1, 1);
+function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement
+  );
 }
 
-function initializePathData() {
-  rideCurve = new THREE.CatmullRomCurve3(
-    sCurveControlPoints,
-    false,
-    'catmullrom',
-    tension
+window.addEventListener('keydown', (e) => {
+  if (isTypingTarget(e.target)) return;
+  if (![...LEFT_KEYS, ...RIGHT_KEYS].includes(e.code)) return;
+  heldSteeringKeys.add(e.code);
+  steeringActivityAt.keyboard = performance.now();
+  if (isRideActive) e.preventDefault();
+});
+window.addEventListener('keyup', (e) => {
+  heldSteeringKeys.delete(e.code);
+});
+window.addEventListener('blur', () => heldSteeringKeys.clear());
+
+webglRenderer.domElement.addEventListener('pointerdown', (e) => {
+  if (isEditMode) return; // the track editor owns the pointer
+  pointerDragStartX = e.clientX;
+  steeringActivityAt.pointer = performance.now();
+});
+window.addEventListener('pointermove', (e) => {
+  if (pointerDragStartX === null) return;
+  const fullLockPx = window.innerWidth * POINTER_FULL_LOCK_FRACTION;
+  pointerRoll = clampNumber(
+    (e.clientX - pointerDragStartX) / fullLockPx,
+    -1,
+    1
   );
+  steeringActivityAt.pointer = performance.now();
+});
+const endPointerSteering = () => {
+  pointerDragStartX = null;
+  pointerRoll = 0; // spring back to centre on release
+};
+window.addEventListener('pointerup', endPointerSteering);
+window.addEventListener('pointercancel', endPointerSteering);
 
-  // Use the more accurate sampling method from the path editor
-  const resScale = parseFloat(resScaleInput.value);
-  const divisions = Math.max(2, sCurveControlPoints.length * resScale);
-  const points = rideCurve.getPoints(divisions);
+window.addEventListener('gamepadconnected', (e) => {
+  steeringActivityAt.gamepad = performance.now();
+  dbg(`Gamepad connected: ${(e as GamepadEvent).gamepad.id}`);
+});
 
-  // Build arc-length table
-  sampledPts = [points[0].clone()];
-  cumLen = [0];
-  let acc = 0;
-  const targetStep = 0.02; // Target distance between samples
-  for (let i = 1; i < points.length; i++) {
-    const a = points[i - 1];
-    const b = points[i];
-    const d = a.distanceTo(b);
-    const steps = Math.max(1, Math.ceil(d / targetStep));
-    for (let k = 1; k <= steps; k++) {
-      const t = k / steps;
-      const p = new THREE.Vector3().lerpVectors(a, b, t);
-      acc += p.distanceTo(sampledPts[sampledPts.length - 1]);
-      sampledPts.push(p);
-      cumLen.push(acc);
-    }
+const steeringSourceInput = document.getElementById(
+  'steeringSource'
+) as HTMLSelectElement;
+const steeringSourceActiveElement = document.getElementById(
+  'steeringSourceActive'
+) as HTMLSpanElement;
+const keyRampSpeedInput = document.getElementById(
+  'keyRampSpeed'
+) as HTMLInputElement;
+
+steeringSourceInput?.addEventListener('change', () => {
+  const value = steeringSourceInput.value;
+  steeringSourceSetting =
+    value in steeringSources ? (value as SteeringSourceId) : 'auto';
+  dbg(`Input: Steering Source = ${steeringSourceSetting}`);
+});
+keyRampSpeedInput?.addEventListener('input', () => {
+  const value = parseFloat(keyRampSpeedInput.value);
+  if (Number.isFinite(value) && value > 0) {
+    keyboardRampPerSecond = value;
+    dbg(`Input: Key Ramp Speed = ${keyboardRampPerSecond}`);
   }
-  totalLen = acc;
+});
+/* ============================================================================
+   SECTION: GYRO STEERING PROFILE (DEAD ZONE / EXPO / LOCK / DRIFT)
+============================================================================ */
 
-  // Calculate 's' (distance) at each original control point
-  sAtPoint = sCurveControlPoints.map((p) => {
-    let bestI = 0,
-      bestD = Infinity;
-    for (let i = 0; i < sampledPts.length; i++) {
-      const d = sampledPts[i].distanceTo(p);
-      if (d < bestD) {
-        bestD = d;
-        bestI = i;
-      }
-    }
-    return cumLen[bestI];
+const ROLL_STEADY_RATE_DEGREES = 3; // slower roll change than this counts as held
+
+/* Relative gyro roll → normalized steering. Shared by the live gyro and the
+   replay source so a recording steers identically under the same profile. */
+function shapeGyroRoll(deltaSeconds: number): number {
+  const profile = steeringProfile;
+  const roll = rollRelativeDegreesSmoothed;
+
+  // Drift: after a long steady hold, bleed the held roll into the offset
+  const rate =
+    deltaSeconds > 0
+      ? Math.abs(roll - lastShapedRollDegrees) / deltaSeconds
+      : 0;
+  lastShapedRollDegrees = roll;
+  rollSteadySeconds =
+    rate < ROLL_STEADY_RATE_DEGREES ? rollSteadySeconds + deltaSeconds : 0;
+  if (
+    profile.recenterDegreesPerSecond > 0 &&
+    rollSteadySeconds > profile.recenterDelaySeconds
+  ) {
+    const step = profile.recenterDegreesPerSecond * deltaSeconds;
+    rollDriftOffsetDegrees += clampNumber(
+      roll - rollDriftOffsetDegrees,
+      -step,
+      step
+    );
+  }
+
+  const corrected = roll - rollDriftOffsetDegrees;
+  const lock = gyroRangeCalibration
+    ? corrected < 0
+      ? gyroRangeCalibration.leftDegrees
+      : gyroRangeCalibration.rightDegrees
+    : profile.lockDegrees;
+  const span = Math.max(1e-3, lock - profile.deadZoneDegrees);
+  const magnitude = clampNumber(
+    (Math.abs(corrected) - profile.deadZoneDegrees) / span,
+    0,
+    1
+  );
+  const curved = (1 - profile.expo) * magnitude + profile.expo * magnitude ** 3;
+  return Math.sign(corrected) * curved;
+}
+
+function resetRollDriftCompensation() {
+  rollDriftOffsetDegrees = 0;
+  rollSteadySeconds = 0;
+  lastShapedRollDegrees = rollRelativeDegreesSmoothed;
+}
+
+const steeringPresetInput = document.getElementById(
+  'steeringPreset'
+) as HTMLSelectElement;
+const steeringProfileInputs = [
+  [document.getElementById('steerDeadZone'), 'deadZoneDegrees'],
+  [document.getElementById('steerExpo'), 'expo'],
+  [document.getElementById('steerLock'), 'lockDegrees'],
+  [document.getElementById('steerRollSmoothing'), 'rollSmoothing'],
+  [document.getElementById('steerRelativeSmoothing'), 'relativeSmoothing'],
+  [document.getElementById('steerRecenterDelay'), 'recenterDelaySeconds'],
+  [document.getElementById('steerRecenterRate'), 'recenterDegreesPerSecond'],
+] as [HTMLInputElement | null, keyof SteeringProfile][];
+
+function applySteeringPreset(id: SteeringPresetId) {
+  steeringProfile = { ...STEERING_PRESETS[id].profile };
+  resetRollDriftCompensation();
+  syncSteeringProfileInputs();
+  if (steeringPresetInput) steeringPresetInput.value = id;
+  dbg(`Steering preset: ${STEERING_PRESETS[id].label}`);
+}
+
+function syncSteeringProfileInputs() {
+  steeringProfileInputs.forEach(([input, key]) => {
+    if (input) input.value = String(steeringProfile[key]);
   });
 }
 
-function computeTurnAngles() {
-  turnAngle = sCurveControlPoints.map((_, i) => 0);
-  for (let i = 1; i < sCurveControlPoints.length - 1; i++) {
-    const a = new THREE.Vector3()
-      .subVectors(sCurveControlPoints[i], sCurveControlPoints[i - 1])
-      .setY(0)
-      .normalize();
-    const b = new THREE.Vector3()
-      .subVectors(sCurveControlPoints[i + 1], sCurveControlPoints[i])
-      .setY(0)
-      .normalize();
-    const dot = THREE.MathUtils.clamp(a.dot(b), -1, 1);
-    const ang = THREE.MathUtils.radToDeg(Math.acos(dot)); // 0..180
-    turnAngle[i] = ang;
-  }
+if (steeringPresetInput) {
+  steeringPresetInput.innerHTML = '';
+  (Object.keys(STEERING_PRESETS) as SteeringPresetId[]).forEach((id) => {
+    steeringPresetInput.add(new Option(STEERING_PRESETS[id].label, id));
+  });
+  steeringPresetInput.add(new Option('Custom', 'custom'));
+  steeringPresetInput.value = 'classic';
+  steeringPresetInput.addEventListener('change', () => {
+    const id = steeringPresetInput.value;
+    if (id in STEERING_PRESETS) applySteeringPreset(id as SteeringPresetId);
+  });
 }
+syncSteeringProfileInputs();
+
+steeringProfileInputs.forEach(([input, key]) => {
+  input?.addEventListener('input', () => {
+    const value = parseFloat(input.value);
+    // Smoothing and lock must stay positive or the roll would freeze
+    const isPositive =
+      key === 'lockDegrees' ||
+      key === 'rollSmoothing' ||
+      key === 'relativeSmoothing';
+    if (!Number.isFinite(value) || value < 0 || (isPositive && value === 0)) {
+      return;
+    }
+    steeringProfile[key] =
+      key === 'expo' || key === 'rollSmoothing' || key === 'relativeSmoothing'
+        ? Math.min(value, 1)
+        : value;
+    if (key === 'recenterDegreesPerSecond') resetRollDriftCompensation();
+    if (steeringPresetInput) steeringPresetInput.value = 'custom';
+    dbg(`Input: Steering ${key} = ${steeringProfile[key]}`);
+  });
+});
 
-function sToT(s: number): number {
-  if (totalLen === 0 || !isFinite(s)) return 0; // Prevent NaN/Infinity issues and handle empty curve
-  const targetS = THREE.MathUtils.clamp(s, 0, totalLen);
+/* ============================================================================
+   SECTION: GYRO SESSION RECORDER + REPLAY
+============================================================================ */
 
-  const index = distanceToIndex(targetS);
+// Recordings hold the raw sensor stream (before any smoothing) plus the
+// events that change how it is interpreted, so a phone session can be fed
+// back through processOrientationSample on a desktop.
+type GyroSessionEvent =
+  | {
+      t: number; // ms since recording start
+      type: 'sample';
+      alpha: number | null;
+      beta: number | null;
+      gamma: number | null;
+    }
+  | { t: number; type: 'orientation'; angle: number }
+  | { t: number; type: 'calibrate' };
+
+// Distributes over the union so each variant keeps its own fields
+type GyroSessionEventInput = GyroSessionEvent extends infer E
+  ? E extends GyroSessionEvent
+    ? Omit<E, 't'>
+    : never
+  : never;
+
+interface GyroSession {
+  kind: 'gyro-session';
+  version: 2;
+  recordedAt: string;
+  userAgent: string;
+  track: string;
+  // Pipeline state at the first event, restored before replay
+  initialState: {
+    orientationAngle: number;
+    rollDegreesSmoothed: number;
+    rollRelativeDegreesSmoothed: number;
+    // [x, y, z, w] device → world quaternions
+    deviceQuaternion: number[];
+    baselineQuaternion: number[] | null;
+  };
+  events: GyroSessionEvent[];
+}
 
-  // Handle the very beginning of the curve explicitly
-  if (index === 0) {
-    return 0;
-  }
-  // If the index is at the very end, return 1
-  if (index >= cumLen.length - 1) {
-    return 1;
-  }
+function captureGyroPipelineState(): GyroSession['initialState'] {
+  return {
+    orientationAngle: screenOrientationAngle,
+    rollDegreesSmoothed,
+    rollRelativeDegreesSmoothed,
+    deviceQuaternion: deviceQuaternion.toArray(),
+    baselineQuaternion: gyroBaselineDeviceQuaternion?.toArray() ?? null,
+  };
+}
 
-  const s0 = cumLen[index - 1];
-  const s1 = cumLen[index];
-  const t1 = index / (sampledPts.length - 1);
-  const t0 = (index - 1) / (sampledPts.length - 1);
+function restoreGyroPipelineState(state: GyroSession['initialState']) {
+  applyScreenOrientationAngle(state.orientationAngle);
+  rollDegreesSmoothed = state.rollDegreesSmoothed;
+  rollRelativeDegreesSmoothed = state.rollRelativeDegreesSmoothed;
+  deviceQuaternion.fromArray(state.deviceQuaternion);
+  gyroBaselineDeviceQuaternion = state.baselineQuaternion
+    ? new THREE.Quaternion().fromArray(state.baselineQuaternion)
+    : null;
+  resetRollDriftCompensation();
+}
 
-  const segmentLength = s1 - s0;
-  // Avoid division by zero if segmentLength is 0 (shouldn't happen with proper sampling, but good for robustness)
-  const segmentProgress =
-    segmentLength === 0 ? 0 : (targetS - s0) / segmentLength;
+function startGyroRecording() {
+  activeGyroRecording = {
+    kind: 'gyro-session',
+    version: 2,
+    recordedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    track: trackName,
+    initialState: captureGyroPipelineState(),
+    events: [],
+  };
+  activeGyroRecordingStartMs = performance.now();
+  updateGyroRecorderStatus();
+  dbg('Gyro recording started');
+}
 
-  return t0 + (t1 - t0) * segmentProgress;
+function stopGyroRecording() {
+  if (!activeGyroRecording) return;
+  lastGyroRecording = activeGyroRecording;
+  activeGyroRecording = null;
+  updateGyroRecorderStatus();
+  dbg(`Gyro recording stopped (${lastGyroRecording.events.length} events)`);
 }
 
-function resetCameraToPathStart() {
-  rideProgressS = 0;
-  rideProgressT = 0;
-  placeCameraAtPathT(0);
-  if (orbitControls) {
-    orbitControls.target.copy(rideCurve.getPointAt(0));
-    orbitControls.update();
+function recordGyroSessionEvent(event: GyroSessionEventInput) {
+  if (!activeGyroRecording) return;
+  const t =
+    Math.round((performance.now() - activeGyroRecordingStartMs) * 10) / 10;
+  activeGyroRecording.events.push({ t, ...event } as GyroSessionEvent);
+}
+
+function applyGyroSessionEvent(event: GyroSessionEvent) {
+  if (event.type === 'sample') {
+    processOrientationSample(event.alpha, event.beta, event.gamma);
+  } else if (event.type === 'orientation') {
+    applyScreenOrientationAngle(event.angle);
+  } else {
+    applyGyroCenter();
   }
 }
 
-/* ============================================================================
-   SECTION: DOM GRABS (HUD + MODAL + CONFIG TOGGLE)
-============================================================================ */
+/* Rewind the loaded session; called when a ride starts so the replay lines
+   up with the ride it was recorded on */
+function restartGyroReplay() {
+  if (!loadedGyroSession) return;
+  restoreGyroPipelineState(loadedGyroSession.initialState);
+  gyroReplayClockMs = 0;
+  gyroReplayNextEvent = 0;
+  isGyroReplayActive = true;
+  updateGyroRecorderStatus();
+}
 
-const hudBarElement = document.getElementById('bar') as HTMLDivElement;
-const hudNeedleElement = document.getElementById('needle') as HTMLDivElement;
-const hudTargetElement = document.getElementById('target') as HTMLDivElement;
-const hudCenterlineElement = document.getElementById(
-  'centerline'
-) as HTMLDivElement;
-const scoreTextElement = document.getElementById('score') as HTMLSpanElement;
-const extraHudElement = document.getElementById('extraHud') as HTMLDivElement;
-const steeringWheelUiElement = document.getElementById(
-  'steeringWheelUi'
-) as HTMLImageElement;
-const targetSmoothingInput = document.getElementById(
-  'targetSmoothing'
-) as HTMLInputElement;
-const heartsTextElement = document.getElementById('hearts') as HTMLDivElement;
-const leadDistanceInput = document.getElementById(
-  'leadDistance'
-) as HTMLInputElement;
-const cameraOffsetMinInput = document.getElementById(
-  'cameraOffsetMin'
-) as HTMLInputElement;
-const cameraOffsetMaxInput = document.getElementById(
-  'cameraOffsetMax'
+function stopGyroReplay() {
+  isGyroReplayActive = false;
+  loadedGyroSession = null;
+  updateOrientationState();
+  updateGyroRecorderStatus();
+  dbg('Gyro replay stopped');
+}
+
+/* Feed every event up to the replay clock through the live pipeline */
+function advanceGyroReplay(deltaSeconds: number) {
+  const session = loadedGyroSession;
+  if (!session || !isGyroReplayActive) return;
+  gyroReplayClockMs += deltaSeconds * 1000;
+  while (
+    gyroReplayNextEvent < session.events.length &&
+    session.events[gyroReplayNextEvent].t <= gyroReplayClockMs
+  ) {
+    applyGyroSessionEvent(session.events[gyroReplayNextEvent]);
+    gyroReplayNextEvent += 1;
+  }
+}
+
+/* Deterministically run a whole session and return the smoothed relative
+   roll (degrees) after every event. Live gyro state is left untouched, so
+   this can be called from the console or a regression script. */
+export function simulateGyroSession(session: GyroSession): number[] {
+  const saved = captureGyroPipelineState();
+  restoreGyroPipelineState(session.initialState);
+  const trace = session.events.map((event) => {
+    applyGyroSessionEvent(event);
+    return rollRelativeDegreesSmoothed;
+  });
+  restoreGyroPipelineState(saved);
+  return trace;
+}
+
+function parseGyroSession(text: string): GyroSession {
+  const data = JSON.parse(text);
+  if (!isPlainObject(data) || data.kind !== 'gyro-session') {
+    throw new Error('not a gyro session recording');
+  }
+  if (data.version !== 2) {
+    throw new Error(`unsupported recording version ${data.version}`);
+  }
+  if (!isPlainObject(data.initialState) || !Array.isArray(data.events)) {
+    throw new Error('recording is missing initialState or events');
+  }
+
+  // Every replayed number must be finite, or steering turns into NaN
+  const issues: TrackIssue[] = [];
+  const state = data.initialState;
+  (
+    [
+      'orientationAngle',
+      'rollDegreesSmoothed',
+      'rollRelativeDegreesSmoothed',
+    ] as const
+  ).forEach((key) =>
+    checkFiniteNumber(issues, `$.initialState.${key}`, state[key], true)
+  );
+  checkQuaternionArray(
+    issues,
+    '$.initialState.deviceQuaternion',
+    state.deviceQuaternion
+  );
+  if (state.baselineQuaternion !== null) {
+    checkQuaternionArray(
+      issues,
+      '$.initialState.baselineQuaternion',
+      state.baselineQuaternion
+    );
+  }
+  data.events.forEach((event, i) => {
+    const path = `$.events[${i}]`;
+    if (!isPlainObject(event)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+    if (checkFiniteNumber(issues, `${path}.t`, event.t, true) && event.t < 0) {
+      issues.push({ path: `${path}.t`, message: 'must not be negative' });
+    }
+    if (event.type === 'sample') {
+      // Browsers report null angles when the sensor has no reading
+      (['alpha', 'beta', 'gamma'] as const).forEach((key) => {
+        if (event[key] !== null) {
+          checkFiniteNumber(issues, `${path}.${key}`, event[key], true);
+        }
+      });
+    } else if (event.type === 'orientation') {
+      checkFiniteNumber(issues, `${path}.angle`, event.angle, true);
+    } else if (event.type !== 'calibrate') {
+      issues.push({
+        path: `${path}.type`,
+        message: `unknown event type ${event.type}`,
+      });
+    }
+  });
+  if (issues.length) throw new TrackValidationError(issues, 'Gyro session');
+  return data as unknown as GyroSession;
+}
+
+/* [x, y, z, w] of finite numbers */
+function checkQuaternionArray(
+  issues: TrackIssue[],
+  path: string,
+  value: unknown
+) {
+  if (!Array.isArray(value) || value.length !== 4) {
+    issues.push({ path, message: 'must be an array of 4 numbers' });
+    return;
+  }
+  value.forEach((component, i) =>
+    checkFiniteNumber(issues, `${path}[${i}]`, component, true)
+  );
+}
+
+function updateGyroRecorderStatus() {
+  if (!gyroRecorderStatusElement) return;
+  if (activeGyroRecording) {
+    gyroRecorderStatusElement.textContent = 'Recording…';
+  } else if (loadedGyroSession) {
+    gyroRecorderStatusElement.textContent = `Replaying ${loadedGyroSession.events.length} events (${isGyroReplayActive ? 'armed' : 'idle'})`;
+  } else if (lastGyroRecording) {
+    gyroRecorderStatusElement.textContent = `Recorded ${lastGyroRecording.events.length} events`;
+  } else {
+    gyroRecorderStatusElement.textContent = 'Idle';
+  }
+}
+
+const recordGyroToggle = document.getElementById(
+  'recordGyroToggle'
 ) as HTMLInputElement;
-const tryAgainModalElement = document.getElementById('modal') as HTMLDivElement;
-// const damageVignetteElement = document.getElementById("vignette") as HTMLDivElement;
-const damageLeftOverlay = document.getElementById(
-  'damageLeft'
-) as HTMLDivElement;
-const damageRightOverlay = document.getElementById(
-  'damageRight'
-) as HTMLDivElement;
-const successModalElement = document.getElementById(
-  'successModal'
-) as HTMLDivElement;
-const successScoreElement = document.getElementById(
-  'successScore'
+const gyroRecorderStatusElement = document.getElementById(
+  'gyroRecorderStatus'
 ) as HTMLSpanElement;
-const debugConfigPanel = document.getElementById(
-  'debugConfig'
-) as HTMLDivElement;
-const toggleConfigButton = document.getElementById(
-  'toggle-ui'
-) as HTMLButtonElement;
-
-const pathNameSpan = document.getElementById('pathName') as HTMLSpanElement;
-const pathDateSpan = document.getElementById('pathDate') as HTMLSpanElement;
-const toggleExtraHudButton = document.getElementById(
-  'toggle-extra-hud'
-) as HTMLButtonElement;
-const calibrationModalElement = document.getElementById(
-  'calibrationModal'
-) as HTMLDivElement;
-const calibrationStartButton = document.getElementById(
-  'calibrationStartRide'
-) as HTMLButtonElement;
-const calibrateGyroButton = document.getElementById(
-  'calibrateGyro'
+const exportGyroSessionButton = document.getElementById(
+  'exportGyroSession'
 ) as HTMLButtonElement;
-const successRestartButton = document.getElementById(
-  'successRestart'
+const importGyroSessionInput = document.getElementById(
+  'importGyroSession'
+) as HTMLInputElement;
+const stopGyroReplayButton = document.getElementById(
+  'stopGyroReplay'
 ) as HTMLButtonElement;
 
-const tensionInput = document.getElementById('tension') as HTMLInputElement;
-const tensionVal = document.getElementById('tensionVal') as HTMLSpanElement;
-// Path & Appearance UI
-const resScaleInput = document.getElementById('resScale') as HTMLInputElement;
-const roadToggle = document.getElementById('roadToggle') as HTMLInputElement;
-const roadMeshSettings = document.getElementById(
-  'roadMeshSettings'
-) as HTMLDivElement;
-const roadWidthInput = document.getElementById('roadWidth') as HTMLInputElement;
-const heightScaleInput = document.getElementById(
-  'heightScale'
-) as HTMLInputElement;
-const roadMaterialPresetInput = document.getElementById(
-  'roadMaterialPreset'
-) as HTMLSelectElement;
-const offTrackMinInput = document.getElementById(
-  'offTrackMin'
-) as HTMLInputElement;
-const offTrackMaxInput = document.getElementById(
-  'offTrackMax'
-) as HTMLInputElement;
-// const groundTexInput = document.getElementById('groundTex') as HTMLInputElement;
-// const btnClearTex = document.getElementById('btnClearTex') as HTMLButtonElement;
+recordGyroToggle?.addEventListener('change', () => {
+  isGyroRecordingEnabled = recordGyroToggle.checked;
+  dbg(`Toggle: Record Gyro = ${isGyroRecordingEnabled}`);
+  if (!isGyroRecordingEnabled) stopGyroRecording();
+});
+exportGyroSessionButton?.addEventListener('click', () => {
+  const session = activeGyroRecording ?? lastGyroRecording;
+  if (!session) {
+    dbg('No gyro recording to export');
+    return;
+  }
+  const stamp = session.recordedAt.replace(/[:.]/g, '-');
+  downloadJson(
+    `gyro-${fileSafeName(session.track, 'track')}-${stamp}.json`,
+    session
+  );
+});
+importGyroSessionInput?.addEventListener('change', async () => {
+  const file = importGyroSessionInput.files?.[0];
+  if (!file) return;
+  try {
+    loadedGyroSession = parseGyroSession(await file.text());
+    restartGyroReplay();
+    dbg(
+      `Loaded gyro session ${file.name} (${loadedGyroSession.events.length} events)`
+    );
+  } catch (err) {
+    showTrackErrorPanel(file.name, err, 'Gyro session import failed');
+    dbg('Gyro session import failed: ' + (err as Error).message);
+  }
+  importGyroSessionInput.value = '';
+});
+stopGyroReplayButton?.addEventListener('click', () => stopGyroReplay());
 
-const fadeEffectInput = document.getElementById(
-  'fadeEffect'
+/* ============================================================================
+   SECTION: HUD / TARGET MAPPING
+============================================================================ */
+
+let targetCenterNormalized = 0;
+let targetWidthNormalized = 0.2;
+let targetCenterNormalizedSmoothed = 0; // New: for smoothed target movement
+let targetSmoothingAlpha = 0.02; // New: smoothing factor
+// Track turn over the lead distance that puts the target at the bar edge.
+// Independent of the steering lock so profiles don't change the course.
+const TARGET_FULL_SCALE_TURN_DEGREES = 45;
+
+/* ============================================================================
+   SECTION: TARGET MODES (LEAD YAW / RACING LINE / LANE KEEPING)
+============================================================================ */
+
+// 'leadYaw' = turn towards the lead point; the others place the target at a
+// lateral offset the player follows via cameraOffsetCurrent
+type TargetModeId = 'leadYaw' | 'racingLine' | 'laneKeeping';
+
+const RACING_LINE_SPACING = 0.25; // metres between optimisation nodes
+const RACING_LINE_ITERATIONS = 400;
+const TARGET_LINE_LIFT = 0.01; // metres above the road to avoid z-fighting
+
+let targetMode: TargetModeId = 'leadYaw';
+let laneOffsetMeters = 0; // lane-keeping offset from the centreline (+ = right)
+let racingLineMarginMeters = 0.02; // kept clear of the usable width's edges
+
+// Lateral offset per node, evenly spaced over the track
+let targetLineOffsets = new Float32Array(0);
+let targetLineSource: THREE.Vector3[] | null = null;
+let targetLineKey = '';
+let targetLineMesh: THREE.Line | null = null;
+const targetLineMaterial = new THREE.LineBasicMaterial({
+  color: 0x00e5ff,
+  transparent: true,
+  opacity: 0.9,
+  depthWrite: false,
+});
+
+/* Offsets the line may use: the road, the player's steering reach and the
+   off-track limits, whichever is narrowest, less the margin */
+function usableOffsetRange() {
+  const halfRoad = (parseFloat(roadWidthInput.value) || 0.5) / 2;
+  const left =
+    Math.max(-halfRoad, cameraOffsetMin, offTrackMin) + racingLineMarginMeters;
+  const right =
+    Math.min(halfRoad, cameraOffsetMax, offTrackMax) - racingLineMarginMeters;
+  return left <= right ? { left, right } : { left: 0, right: 0 };
+}
+
+function targetLineNodeCount() {
+  const segments = Math.max(1, Math.ceil(totalLen / RACING_LINE_SPACING));
+  // The closing node of a circuit is the first one again
+  return isTrackClosed ? segments : segments + 1;
+}
+
+function targetLineNodeS(k: number, count: number) {
+  const segments = isTrackClosed ? count : count - 1;
+  return (k / segments) * totalLen;
+}
+
+/* Minimum-curvature line across the usable width: each node is pulled
+   towards the midpoint of its neighbours (Gauss-Seidel) and clamped to the
+   range, which cuts apexes and swings wide on entry and exit */
+function computeRacingLineOffsets(left: number, right: number) {
+  const count = targetLineNodeCount();
+  const cx = new Float64Array(count),
+    cz = new Float64Array(count),
+    nx = new Float64Array(count),
+    nz = new Float64Array(count);
+  for (let k = 0; k < count; k++) {
+    const idx = distanceToIndex(targetLineNodeS(k, count));
+    const tangent = tangentAtIndex(idx);
+    cx[k] = sampledPts[idx].x;
+    cz[k] = sampledPts[idx].z;
+    // Horizontal right-hand side, matching bankedFrameAtIndex with no bank
+    const length = Math.hypot(tangent.x, tangent.z) || 1;
+    nx[k] = -tangent.z / length;
+    nz[k] = tangent.x / length;
+  }
+
+  // Open tracks start and finish on the centreline, or as near to it as the
+  // usable range allows; every node starts there
+  const offsets = new Float32Array(count).fill(clampNumber(0, left, right));
+  if (count < 3) return offsets;
+  const first = isTrackClosed ? 0 : 1;
+  const last = isTrackClosed ? count - 1 : count - 2;
+  for (let iteration = 0; iteration < RACING_LINE_ITERATIONS; iteration++) {
+    for (let k = first; k <= last; k++) {
+      const a = (k - 1 + count) % count,
+        b = (k + 1) % count;
+      const midX =
+        (cx[a] + offsets[a] * nx[a] + cx[b] + offsets[b] * nx[b]) / 2;
+      const midZ =
+        (cz[a] + offsets[a] * nz[a] + cz[b] + offsets[b] * nz[b]) / 2;
+      const desired = (midX - cx[k]) * nx[k] + (midZ - cz[k]) * nz[k];
+      offsets[k] = clampNumber(desired, left, right);
+    }
+  }
+  return offsets;
+}
+
+function rebuildTargetLineMesh() {
+  if (targetLineMesh) {
+    scene.remove(targetLineMesh);
+    targetLineMesh.geometry.dispose();
+    targetLineMesh = null;
+  }
+  const count = targetLineOffsets.length;
+  if (count < 2) return;
+  const positions = new Float32Array((count + (isTrackClosed ? 1 : 0)) * 3);
+  for (let k = 0; k < positions.length / 3; k++) {
+    const node = k % count;
+    const idx = distanceToIndex(targetLineNodeS(node, count));
+    const tangent = tangentAtIndex(idx);
+    const { side, up } = bankedFrameAtIndex(idx, tangent);
+    const p = sampledPts[idx]
+      .clone()
+      .addScaledVector(side, targetLineOffsets[node])
+      .addScaledVector(up, TARGET_LINE_LIFT);
+    positions.set([p.x, p.y, p.z], k * 3);
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  targetLineMesh = new THREE.Line(geometry, targetLineMaterial);
+  targetLineMesh.renderOrder = 11; // over the road (renderOrder 10)
+  scene.add(targetLineMesh);
+}
+
+/* Recomputes the followed line when the track, mode or limits change */
+function ensureTargetLine() {
+  if (targetMode === 'leadYaw' || totalLen <= 0) {
+    if (targetLineMesh) targetLineMesh.visible = false;
+    return;
+  }
+  const { left, right } = usableOffsetRange();
+  const key = `${targetMode}|${left}|${right}|${laneOffsetMeters}`;
+  if (targetLineSource === sampledPts && targetLineKey === key) {
+    if (targetLineMesh) targetLineMesh.visible = true;
+    return;
+  }
+  targetLineSource = sampledPts;
+  targetLineKey = key;
+  targetLineOffsets =
+    targetMode === 'racingLine'
+      ? computeRacingLineOffsets(left, right)
+      : new Float32Array(targetLineNodeCount()).fill(
+          clampNumber(laneOffsetMeters, left, right)
+        );
+  rebuildTargetLineMesh();
+  const minOffset = targetLineOffsets.reduce(
+    (a, b) => Math.min(a, b),
+    Infinity
+  );
+  const maxOffset = targetLineOffsets.reduce(
+    (a, b) => Math.max(a, b),
+    -Infinity
+  );
+  dbg(
+    `Target line rebuilt: ${targetMode}, ${targetLineOffsets.length} nodes, ` +
+      `offsets ${minOffset.toFixed(3)}..${maxOffset.toFixed(3)} m`
+  );
+}
+
+/* Followed offset at s, interpolated between nodes */
+function targetLineOffsetAtS(s: number) {
+  ensureTargetLine();
+  const count = targetLineOffsets.length;
+  if (count === 0 || totalLen <= 0) return 0;
+  const segments = isTrackClosed ? count : count - 1;
+  const position = (clampNumber(s, 0, totalLen) / totalLen) * segments;
+  const k = Math.min(Math.floor(position), segments - 1);
+  const t = position - k;
+  return THREE.MathUtils.lerp(
+    targetLineOffsets[k],
+    targetLineOffsets[(k + 1) % count],
+    t
+  );
+}
+
+/* Lateral offset (m) -> needle position, the inverse of the renderLoop
+   mapping from needle to cameraOffsetCurrent */
+function offsetToNeedle(offset: number) {
+  const range = cameraOffsetMax - cameraOffsetMin;
+  if (range <= 0) return 0;
+  return clampNumber(((offset - cameraOffsetMin) / range) * 2 - 1, -1, 1);
+}
+
+const targetModeInput = document.getElementById(
+  'targetMode'
 ) as HTMLSelectElement;
-const fadeEffectSettings = document.getElementById(
-  'fadeEffectSettings'
-) as HTMLDivElement;
-const fadeInStartInput = document.getElementById(
-  'fadeInStart'
-) as HTMLInputElement;
-const fadeInEndInput = document.getElementById('fadeInEnd') as HTMLInputElement;
-const fadeOutStartInput = document.getElementById(
-  'fadeOutStart'
-) as HTMLInputElement;
-const fadeOutEndInput = document.getElementById(
-  'fadeOutEnd'
-) as HTMLInputElement;
-const hdrToggle = document.getElementById('hdrToggle') as HTMLInputElement;
-const hdrSettings = document.getElementById('hdrSettings') as HTMLDivElement;
-const hdrBackgroundToggle = document.getElementById(
-  'hdrBackgroundToggle'
+targetModeInput?.addEventListener('change', () => {
+  const value = targetModeInput.value as TargetModeId;
+  targetMode = ['leadYaw', 'racingLine', 'laneKeeping'].includes(value)
+    ? value
+    : 'leadYaw';
+  dbg(`Input: Target Mode = ${targetMode}`);
+  ensureTargetLine();
+});
+const laneOffsetInput = document.getElementById(
+  'laneOffset'
 ) as HTMLInputElement;
-const hdrExposureInput = document.getElementById(
-  'hdrExposure'
+// On change rather than input, so the clamp does not fight typing
+laneOffsetInput?.addEventListener('change', () => {
+  const value = parseFloat(laneOffsetInput.value);
+  if (!Number.isFinite(value)) return;
+  // Kept on the road and within reach, like the racing line
+  const { left, right } = usableOffsetRange();
+  laneOffsetMeters = clampNumber(value, left, right);
+  if (laneOffsetMeters !== value) {
+    laneOffsetInput.value = String(+laneOffsetMeters.toFixed(3));
+  }
+  dbg(`Input: Lane Offset = ${laneOffsetMeters}`);
+});
+const racingLineMarginInput = document.getElementById(
+  'racingLineMargin'
 ) as HTMLInputElement;
-const hdrExposureVal = document.getElementById(
-  'hdrExposureVal'
-) as HTMLSpanElement;
-const fogToggle = document.getElementById('fogToggle') as HTMLInputElement;
-const fogRadiusInput = document.getElementById('fogRadius') as HTMLInputElement;
-const fogRadiusValueLabel = document.getElementById(
-  'fogRadiusVal'
-) as HTMLSpanElement;
-const fogSettingsContainer = document.getElementById(
-  'fogSettings'
-) as HTMLDivElement;
+racingLineMarginInput?.addEventListener('input', () => {
+  const value = parseFloat(racingLineMarginInput.value);
+  if (!Number.isFinite(value) || value < 0) return;
+  racingLineMarginMeters = value;
+  dbg(`Input: Racing Line Margin = ${racingLineMarginMeters}`);
+});
+
+/* ============================================================================
+   SECTION: CAMERA + LEAD MARKER PLACEMENT
+============================================================================ */
+
+/* Unit tangent at a sampled point (forward difference, backward at the end) */
+function tangentAtIndex(idx: number): THREE.Vector3 {
+  // On a closed circuit the last sample coincides with the first
+  if (isTrackClosed && idx >= sampledPts.length - 1 && sampledPts.length > 1) {
+    idx = 0;
+  }
+  const tangent =
+    idx < sampledPts.length - 1
+      ? new THREE.Vector3().subVectors(sampledPts[idx + 1], sampledPts[idx])
+      : new THREE.Vector3().subVectors(sampledPts[idx], sampledPts[idx - 1]);
+  return tangent.normalize();
+}
+
+/* Side (right) and up vectors at a sampled point, rolled by the track bank */
+function bankedFrameAtIndex(idx: number, tangent: THREE.Vector3) {
+  const side = new THREE.Vector3().crossVectors(tangent, worldYAxis);
+  if (side.lengthSq() < 1e-8) side.set(1, 0, 0); // vertical tangent fallback
+  side.normalize();
+  const up = new THREE.Vector3().crossVectors(side, tangent).normalize();
+  const bank = sampledBank[idx] ?? 0;
+  if (bank !== 0) {
+    side.applyAxisAngle(tangent, bank);
+    up.applyAxisAngle(tangent, bank);
+  }
+  return { side, up };
+}
+
+const cameraLookMatrixTemp = new THREE.Matrix4();
+
+/* Sideways displacement for a lateral offset in metres; follows the bank.
+   Shared by the ride camera and the ghost cart so they line up. */
+function lateralOffsetAtIndex(
+  idx: number,
+  tangent: THREE.Vector3,
+  offset: number
+) {
+  return bankedFrameAtIndex(idx, tangent).side.multiplyScalar(offset);
+}
+
+function placeCameraAtPathT(pathT: number) {
+  const clampedT = THREE.MathUtils.clamp(pathT, 0, 1);
+
+  // --- START: FIX for Sinking Camera and Late Slowdown ---
+  // Find the index on the *final, height-adjusted* sampled points array.
+  const s = rideProgressS;
+  const idx = distanceToIndex(s);
+  const positionOnCurve = sampledPts[idx]; // Use the elevated point
+  const tangentOnCurve = tangentAtIndex(idx);
+  // --- END: FIX ---
+
+  // The active camera mode turns the track frame at s into a pose; the
+  // lateral offset driven by the HUD needle is applied inside the mode.
+  computeCameraPose(cameraMode, s, idx, tangentOnCurve, desiredCameraPose);
+  if (!isCameraTransitionActive) applyCameraPose(desiredCameraPose);
+
+  // --- START: FIX for erratic lead marker ---
+  // Use a constant look-ahead distance in meters, not a parametric offset.
+  const leadDistanceMeters = parseFloat(leadDistanceInput.value) || 2.0;
+  const aheadS = (rideProgressS + leadDistanceMeters) % totalLen;
+  const aheadIdx = distanceToIndex(aheadS);
+  const aheadPoint = sampledPts[aheadIdx]; // Get point from the correct, elevated path
+  const aheadTangent = tangentAtIndex(aheadIdx);
+  // --- END: FIX ---
+
+  // Position the lead marker mesh at the calculated ahead point
+  leadMarkerMesh.position.copy(aheadPoint);
+  leadMarkerMesh.lookAt(aheadPoint.clone().add(aheadTangent));
+
+  const yawNow = Math.atan2(tangentOnCurve.x, tangentOnCurve.z);
+  const yawAhead = Math.atan2(aheadTangent.x, aheadTangent.z);
+  const deltaYawRad =
+    THREE.MathUtils.euclideanModulo(yawAhead - yawNow + Math.PI, Math.PI * 2) -
+    Math.PI;
+  const deltaYawDeg = THREE.MathUtils.radToDeg(deltaYawRad);
+  // The line modes score the rider against the drawn line where they are,
+  // not at the lead point, so riding on the line through an apex is on target
+  targetCenterNormalized =
+    targetMode === 'leadYaw'
+      ? clampNumber(-deltaYawDeg / TARGET_FULL_SCALE_TURN_DEGREES, -1, 1)
+      : offsetToNeedle(targetLineOffsetAtS(s));
+}
+
+/* Gyro yaw compensation on top of a pose; only the gyro physically turns the
+   screen, so only it needs compensating, and only in the driver's-eye views */
+function applyGyroYawCompensation() {
+  if (!isGyroEnabled || activeSteeringSourceId !== 'gyro') return;
+  if (cameraMode !== 'cockpit' && cameraMode !== 'chase') return;
+  const yawRadians = THREE.MathUtils.degToRad(
+    clampNumber(
+      -steeringRollNormalized * steeringProfile.lockDegrees * yawSensitivity,
+      -steeringProfile.lockDegrees,
+      steeringProfile.lockDegrees
+    )
+  );
+  yawQuaternionTemp.setFromAxisAngle(worldYAxis, yawRadians);
+  rideCamera.quaternion.premultiply(yawQuaternionTemp);
+}
+
+function initializePathData() {
+  rideCurve = new THREE.CatmullRomCurve3(
+    sCurveControlPoints,
+    isTrackClosed,
+    'catmullrom',
+    tension
+  );
+
+  // Use the more accurate sampling method from the path editor
+  const resScale = parseFloat(resScaleInput.value);
+  const divisions = Math.max(2, sCurveControlPoints.length * resScale);
+  const points = rideCurve.getPoints(divisions);
+
+  // Build arc-length table
+  sampledPts = [points[0].clone()];
+  cumLen = [0];
+  let acc = 0;
+  const targetStep = 0.02; // Target distance between samples
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const d = a.distanceTo(b);
+    const steps = Math.max(1, Math.ceil(d / targetStep));
+    for (let k = 1; k <= steps; k++) {
+      const t = k / steps;
+      const p = new THREE.Vector3().lerpVectors(a, b, t);
+      acc += p.distanceTo(sampledPts[sampledPts.length - 1]);
+      sampledPts.push(p);
+      cumLen.push(acc);
+    }
+  }
+  totalLen = acc;
+
+  // Calculate 's' (distance) at each original control point
+  sAtPoint = sCurveControlPoints.map((p) => {
+    let bestI = 0,
+      bestD = Infinity;
+    for (let i = 0; i < sampledPts.length; i++) {
+      const d = sampledPts[i].distanceTo(p);
+      if (d < bestD) {
+        bestD = d;
+        bestI = i;
+      }
+    }
+    return cumLen[bestI];
+  });
+
+  // Interpolate the control point bank angles along the arc length
+  sampledBank = cumLen.map((s) => THREE.MathUtils.degToRad(bankAtS(s)));
+}
+
+/* Bank (degrees) at distance s, eased between neighbouring control points */
+function bankAtS(s: number): number {
+  const n = sAtPoint.length;
+  if (n === 0) return 0;
+  if (s <= sAtPoint[0]) return bankAtPoint[0] ?? 0;
+  for (let i = 1; i < n; i++) {
+    const sA = sAtPoint[i - 1],
+      sB = sAtPoint[i];
+    if (s <= sB) {
+      const t = sB > sA ? (s - sA) / (sB - sA) : 1;
+      return THREE.MathUtils.lerp(
+        bankAtPoint[i - 1] ?? 0,
+        bankAtPoint[i] ?? 0,
+        THREE.MathUtils.smoothstep(t, 0, 1)
+      );
+    }
+  }
+  // Past the last control point: ease across the seam on closed circuits
+  if (isTrackClosed && totalLen > sAtPoint[n - 1]) {
+    const t = (s - sAtPoint[n - 1]) / (totalLen - sAtPoint[n - 1]);
+    return THREE.MathUtils.lerp(
+      bankAtPoint[n - 1] ?? 0,
+      bankAtPoint[0] ?? 0,
+      THREE.MathUtils.smoothstep(t, 0, 1)
+    );
+  }
+  return bankAtPoint[n - 1] ?? 0;
+}
+
+/* Number of segments: one per point pair, plus the seam on closed circuits */
+function segmentCount(): number {
+  const n = sCurveControlPoints.length;
+  return isTrackClosed ? n : Math.max(0, n - 1);
+}
+
+/* [start, end] arc length of segment i (the seam segment ends at totalLen) */
+function segmentRangeS(i: number): [number, number] {
+  const sA = sAtPoint[i] ?? 0;
+  const sB = i + 1 < sAtPoint.length ? sAtPoint[i + 1] : totalLen;
+  return [sA, sB];
+}
+
+function computeTurnAngles() {
+  const n = sCurveControlPoints.length;
+  turnAngle = sCurveControlPoints.map((_, i) => 0);
+  // Every point is a corner on a closed circuit, endpoints excluded otherwise
+  const first = isTrackClosed ? 0 : 1;
+  const last = isTrackClosed ? n - 1 : n - 2;
+  for (let i = first; i <= last; i++) {
+    const prev = sCurveControlPoints[(i - 1 + n) % n];
+    const next = sCurveControlPoints[(i + 1) % n];
+    const a = new THREE.Vector3()
+      .subVectors(sCurveControlPoints[i], prev)
+      .setY(0)
+      .normalize();
+    const b = new THREE.Vector3()
+      .subVectors(next, sCurveControlPoints[i])
+      .setY(0)
+      .normalize();
+    const dot = THREE.MathUtils.clamp(a.dot(b), -1, 1);
+    const ang = THREE.MathUtils.radToDeg(Math.acos(dot)); // 0..180
+    turnAngle[i] = ang;
+  }
+}
+
+function sToT(s: number): number {
+  if (totalLen === 0 || !isFinite(s)) return 0; // Prevent NaN/Infinity issues and handle empty curve
+  const targetS = THREE.MathUtils.clamp(s, 0, totalLen);
+
+  const index = distanceToIndex(targetS);
+
+  // Handle the very beginning of the curve explicitly
+  if (index === 0) {
+    return 0;
+  }
+  // If the index is at the very end, return 1
+  if (index >= cumLen.length - 1) {
+    return 1;
+  }
+
+  const s0 = cumLen[index - 1];
+  const s1 = cumLen[index];
+  const t1 = index / (sampledPts.length - 1);
+  const t0 = (index - 1) / (sampledPts.length - 1);
+
+  const segmentLength = s1 - s0;
+  // Avoid division by zero if segmentLength is 0 (shouldn't happen with proper sampling, but good for robustness)
+  const segmentProgress =
+    segmentLength === 0 ? 0 : (targetS - s0) / segmentLength;
+
+  return t0 + (t1 - t0) * segmentProgress;
+}
+
+function resetCameraToPathStart() {
+  rideProgressS = 0;
+  rideProgressT = 0;
+  placeCameraAtPathT(0);
+  if (orbitControls) {
+    orbitControls.target.copy(rideCurve.getPointAt(0));
+    orbitControls.update();
+  }
+}
+
+/* ============================================================================
+   SECTION: CAMERA MODES (COCKPIT / CHASE / CINEMATIC / TOP-DOWN)
+============================================================================ */
+
+type CameraModeId = 'cockpit' | 'chase' | 'cinematic' | 'topDown';
+
+interface CameraModeSettings {
+  cockpit: { height: number; lookAhead: number };
+  chase: { back: number; height: number; lookAhead: number };
+  cinematic: { spacing: number; sideDistance: number; height: number };
+  topDown: { height: number; lookAhead: number };
+  transitionStiffness: number; // spring constant (1/s²) for mode switches
+}
+
+interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  up: THREE.Vector3;
+}
+
+const CAMERA_MODE_LABELS: Record<CameraModeId, string> = {
+  cockpit: 'Cockpit',
+  chase: 'Chase',
+  cinematic: 'Cinematic',
+  topDown: 'Top-Down',
+};
+
+// Chase defaults are the original hard-coded view
+const cameraModeSettings: CameraModeSettings = {
+  cockpit: { height: 0.08, lookAhead: 5 },
+  chase: { back: 0.5, height: 0.25, lookAhead: 5 },
+  cinematic: { spacing: 6, sideDistance: 1.5, height: 0.8 },
+  topDown: { height: 12, lookAhead: 2 },
+  transitionStiffness: 40,
+};
+
+let cameraMode: CameraModeId = 'chase';
+const desiredCameraPose: CameraPose = {
+  position: new THREE.Vector3(),
+  target: new THREE.Vector3(),
+  up: new THREE.Vector3(0, 1, 0),
+};
+// Spring state while easing from the previous mode's pose to the new one
+let isCameraTransitionActive = false;
+const cameraSpringPose: CameraPose = {
+  position: new THREE.Vector3(),
+  target: new THREE.Vector3(),
+  up: new THREE.Vector3(0, 1, 0),
+};
+const cameraSpringVelocity: CameraPose = {
+  position: new THREE.Vector3(),
+  target: new THREE.Vector3(),
+  up: new THREE.Vector3(),
+};
+const cameraPoseTemp = new THREE.Vector3();
+const cameraSpringErrorTemp = new THREE.Vector3();
+const cameraSpringDriftTemp = new THREE.Vector3();
+const CAMERA_TRANSITION_MAX_SECONDS = 2;
+let cameraTransitionSeconds = 0;
+
+function isThirdPersonCameraMode() {
+  return cameraMode === 'cinematic' || cameraMode === 'topDown';
+}
+
+/* Pose for a mode with the rider at distance s (sample idx, tangent) */
+function computeCameraPose(
+  mode: CameraModeId,
+  s: number,
+  idx: number,
+  tangent: THREE.Vector3,
+  out: CameraPose
+) {
+  const point = sampledPts[idx];
+  const { up } = bankedFrameAtIndex(idx, tangent);
+  const riderPosition = cameraPoseTemp
+    .copy(point)
+    .add(lateralOffsetAtIndex(idx, tangent, cameraOffsetCurrent));
+
+  if (mode === 'cockpit') {
+    const { height, lookAhead } = cameraModeSettings.cockpit;
+    const view = viewTangentAt(s, tangent);
+    out.position.copy(riderPosition).addScaledVector(up, height);
+    out.target
+      .copy(out.position)
+      .addScaledVector(view, Math.max(0.1, lookAhead + speedLookAheadMeters()));
+    out.up.copy(up);
+    applyCameraLean(out);
+  } else if (mode === 'cinematic') {
+    // Fixed trackside spots, alternating sides, each covering one spacing
+    // of track; the view cuts to the next spot as the rider passes
+    const { spacing, sideDistance, height } = cameraModeSettings.cinematic;
+    const step = Math.max(0.5, spacing);
+    const spot = Math.floor(s / step) + 1;
+    const spotS = isTrackClosed
+      ? THREE.MathUtils.euclideanModulo(spot * step, totalLen)
+      : Math.min(spot * step, totalLen);
+    const spotIdx = distanceToIndex(spotS);
+    const spotTangent = tangentAtIndex(spotIdx);
+    const side = bankedFrameAtIndex(spotIdx, spotTangent).side;
+    out.position
+      .copy(sampledPts[spotIdx])
+      .addScaledVector(side, spot % 2 === 0 ? sideDistance : -sideDistance);
+    out.position.y += height;
+    out.target.copy(riderPosition).addScaledVector(up, 0.1);
+    out.up.set(0, 1, 0);
+  } else if (mode === 'topDown') {
+    // Straight down with the direction of travel pointing up the screen
+    const { height, lookAhead } = cameraModeSettings.topDown;
+    out.target.copy(riderPosition).addScaledVector(tangent, lookAhead);
+    out.position.copy(out.target);
+    out.position.y += Math.max(1, height);
+    out.up.set(tangent.x, 0, tangent.z);
+    if (out.up.lengthSq() < 1e-6) out.up.set(0, 0, 1);
+    out.up.normalize();
+  } else {
+    // Chase-cam positioning from the path editor. Side and up follow the
+    // track bank so the camera rolls with banked turns.
+    const { back, height, lookAhead } = cameraModeSettings.chase;
+    const view = viewTangentAt(s, tangent);
+    out.position
+      .copy(riderPosition)
+      .addScaledVector(view, -back)
+      .addScaledVector(up, height);
+    out.target
+      .copy(point)
+      .addScaledVector(view, lookAhead + speedLookAheadMeters());
+    out.up.copy(up);
+    applyCameraLean(out);
+  }
+}
+
+function applyCameraPose(pose: CameraPose) {
+  rideCamera.position.copy(pose.position);
+  // Equivalent to rideCamera.lookAt() but with the pose's up vector
+  cameraLookMatrixTemp.lookAt(pose.position, pose.target, pose.up);
+  rideCamera.quaternion.setFromRotationMatrix(cameraLookMatrixTemp);
+  applyGyroYawCompensation();
+}
+
+function setCameraMode(mode: CameraModeId) {
+  if (mode === cameraMode) return;
+  // Spring from wherever the camera is now, looking the same way
+  cameraSpringPose.position.copy(rideCamera.position);
+  rideCamera.getWorldDirection(cameraSpringPose.target);
+  cameraSpringPose.target
+    .multiplyScalar(
+      Math.max(1, rideCamera.position.distanceTo(desiredCameraPose.target))
+    )
+    .add(rideCamera.position);
+  cameraSpringPose.up.set(0, 1, 0).applyQuaternion(rideCamera.quaternion);
+  cameraSpringVelocity.position.set(0, 0, 0);
+  cameraSpringVelocity.target.set(0, 0, 0);
+  cameraSpringVelocity.up.set(0, 0, 0);
+
+  cameraMode = mode;
+  if (cameraModeInput) cameraModeInput.value = mode;
+  // Outside a ride, aim the new mode at the cart's current spot
+  const idx = distanceToIndex(rideProgressS);
+  computeCameraPose(
+    mode,
+    rideProgressS,
+    idx,
+    tangentAtIndex(idx),
+    desiredCameraPose
+  );
+  isCameraTransitionActive = true;
+  cameraTransitionSeconds = 0;
+  dbg(`Camera mode: ${CAMERA_MODE_LABELS[mode]}`);
+}
+
+function springVector(
+  value: THREE.Vector3,
+  velocity: THREE.Vector3,
+  goal: THREE.Vector3,
+  stiffness: number,
+  dt: number
+) {
+  // Exact critically damped step, stable for any dt: with e = value - goal
+  // and w = sqrt(stiffness), e(t) = (e0 + (v0 + w e0) t) exp(-w t)
+  const omega = Math.sqrt(stiffness);
+  const decay = Math.exp(-omega * dt);
+  const error = cameraSpringErrorTemp.subVectors(value, goal);
+  const drift = cameraSpringDriftTemp
+    .copy(velocity)
+    .addScaledVector(error, omega)
+    .multiplyScalar(dt);
+  value.copy(goal).addScaledVector(error.add(drift), decay);
+  velocity.addScaledVector(drift, -omega).multiplyScalar(decay);
+}
+
+/* Advances a mode-switch transition; once settled the mode's pose is
+   applied directly again, or handed to orbitControls outside a ride */
+function stepCameraTransition(deltaSeconds: number) {
+  if (!isCameraTransitionActive) return;
+  const k = Math.max(1, cameraModeSettings.transitionStiffness);
+  springVector(
+    cameraSpringPose.position,
+    cameraSpringVelocity.position,
+    desiredCameraPose.position,
+    k,
+    deltaSeconds
+  );
+  springVector(
+    cameraSpringPose.target,
+    cameraSpringVelocity.target,
+    desiredCameraPose.target,
+    k,
+    deltaSeconds
+  );
+  springVector(
+    cameraSpringPose.up,
+    cameraSpringVelocity.up,
+    desiredCameraPose.up,
+    k,
+    deltaSeconds
+  );
+  cameraSpringPose.up.normalize();
+  applyCameraPose(cameraSpringPose);
+
+  // Snap once close enough, or after a timeout if the goal keeps moving
+  cameraTransitionSeconds += deltaSeconds;
+  const isSettled =
+    cameraTransitionSeconds >= CAMERA_TRANSITION_MAX_SECONDS ||
+    (cameraSpringPose.position.distanceTo(desiredCameraPose.position) < 0.005 &&
+      cameraSpringPose.target.distanceTo(desiredCameraPose.target) < 0.01 &&
+      cameraSpringVelocity.position.lengthSq() < 1e-4);
+  if (isSettled) {
+    isCameraTransitionActive = false;
+    applyCameraPose(desiredCameraPose);
+    if (!isRideActive) {
+      orbitControls.target.copy(desiredCameraPose.target);
+      orbitControls.update();
+    }
+  }
+}
+
+const cameraModeInput = document.getElementById(
+  'cameraMode'
+) as HTMLSelectElement;
+cameraModeInput?.addEventListener('change', () => {
+  const value = cameraModeInput.value;
+  if (value in CAMERA_MODE_LABELS) setCameraMode(value as CameraModeId);
+});
+window.addEventListener('keydown', (e) => {
+  if (e.code !== 'KeyC' || isTypingTarget(e.target)) return;
+  const modes = Object.keys(CAMERA_MODE_LABELS) as CameraModeId[];
+  setCameraMode(modes[(modes.indexOf(cameraMode) + 1) % modes.length]);
+});
+
+(
+  [
+    ['camCockpitHeight', 'cockpit', 'height'],
+    ['camCockpitLookAhead', 'cockpit', 'lookAhead'],
+    ['camChaseBack', 'chase', 'back'],
+    ['camChaseHeight', 'chase', 'height'],
+    ['camChaseLookAhead', 'chase', 'lookAhead'],
+    ['camCinematicSpacing', 'cinematic', 'spacing'],
+    ['camCinematicSide', 'cinematic', 'sideDistance'],
+    ['camCinematicHeight', 'cinematic', 'height'],
+    ['camTopDownHeight', 'topDown', 'height'],
+    ['camTopDownLookAhead', 'topDown', 'lookAhead'],
+  ] as const
+).forEach(([id, mode, key]) => {
+  const input = document.getElementById(id) as HTMLInputElement;
+  input?.addEventListener('input', () => {
+    const value = parseFloat(input.value);
+    if (!Number.isFinite(value)) return;
+    (cameraModeSettings[mode] as Record<string, number>)[key] = value;
+    dbg(`Input: Camera ${mode}.${key} = ${value}`);
+  });
+});
+const cameraStiffnessInput = document.getElementById(
+  'camTransitionStiffness'
+) as HTMLInputElement;
+cameraStiffnessInput?.addEventListener('input', () => {
+  const value = parseFloat(cameraStiffnessInput.value);
+  if (Number.isFinite(value) && value > 0) {
+    cameraModeSettings.transitionStiffness = value;
+  }
+});
+
+/* ============================================================================
+   SECTION: CAMERA DYNAMICS (SMOOTHED LOOK, LEAN, SPEED LOOK-AHEAD + FOV)
+============================================================================ */
+
+interface CameraDynamicsConfig {
+  enabled: boolean;
+  smoothingWindowMeters: number; // look direction averaged over this much track
+  leanScale: number; // fraction of the lateral-g lean angle applied
+  maxLeanDegrees: number;
+  lookAheadSecondsPerSpeed: number; // extra look-ahead (m) per m/s of speed
+  baseFov: number;
+  fovPerSpeed: number; // degrees per m/s
+  maxFov: number;
+  responseSeconds: number; // time constant for lean and FOV changes
+}
+
+const cameraDynamicsConfig: CameraDynamicsConfig = {
+  enabled: true,
+  smoothingWindowMeters: 2,
+  leanScale: 0.5,
+  maxLeanDegrees: 12,
+  lookAheadSecondsPerSpeed: 0.3,
+  baseFov: 70,
+  fovPerSpeed: 0.6,
+  maxFov: 95,
+  responseSeconds: 0.25,
+};
+
+const GRAVITY_MPS2 = 9.81;
+const LOOK_SMOOTHING_SAMPLES = 7;
+
+const reducedMotionQuery = window.matchMedia?.(
+  '(prefers-reduced-motion: reduce)'
+);
+// Follows the OS setting until the checkbox is touched
+let isReducedMotion = !!reducedMotionQuery?.matches;
+let cameraLeanRadians = 0;
+const cameraLeanAxisTemp = new THREE.Vector3();
+const cameraViewTangentTemp = new THREE.Vector3();
+
+function isCameraDynamicsActive() {
+  return cameraDynamicsConfig.enabled && !isReducedMotion;
+}
+
+function dynamicsSpeed() {
+  return isRideActive ? currentSpeedForHud : 0;
+}
+
+function speedLookAheadMeters() {
+  if (!isCameraDynamicsActive()) return 0;
+  return dynamicsSpeed() * cameraDynamicsConfig.lookAheadSecondsPerSpeed;
+}
+
+/* Look direction at s: the mean tangent over a window centred on s, so
+   single-sample kinks in tight turns don't jerk the view. Returns a shared
+   temp vector; use it before the next call. */
+function viewTangentAt(s: number, tangent: THREE.Vector3) {
+  const windowMeters = cameraDynamicsConfig.smoothingWindowMeters;
+  if (!isCameraDynamicsActive() || windowMeters <= 0 || totalLen <= 0) {
+    return tangent;
+  }
+  const sum = cameraViewTangentTemp.set(0, 0, 0);
+  for (let i = 0; i < LOOK_SMOOTHING_SAMPLES; i++) {
+    let sampleS = s + windowMeters * (i / (LOOK_SMOOTHING_SAMPLES - 1) - 0.5);
+    if (isTrackClosed) {
+      sampleS = THREE.MathUtils.euclideanModulo(sampleS, totalLen);
+    }
+    sum.add(tangentAtIndex(distanceToIndex(sampleS)));
+  }
+  return sum.lengthSq() < 1e-8 ? tangent : sum.normalize();
+}
+
+/* Curvature with a sign: positive for left turns (seen from above) */
+function signedCurvatureAtIndex(i: number) {
+  if (sampledPts.length < 3) return 0;
+  // Same window as the magnitude, so both agree near a circuit's seam
+  const [iBefore, iAfter] = curvatureWindowIndices(i);
+  const before = tangentAtIndex(iBefore);
+  const after = tangentAtIndex(iAfter);
+  const turnY = before.z * after.x - before.x * after.z; // (before × after).y
+  return Math.sign(turnY) * curvatureAtIndex(i);
+}
+
+/* Rolls the pose's up vector into the turn about its view direction */
+function applyCameraLean(pose: CameraPose) {
+  if (!isCameraDynamicsActive() || cameraLeanRadians === 0) return;
+  const forward = cameraLeanAxisTemp.subVectors(pose.target, pose.position);
+  if (forward.lengthSq() < 1e-8) return;
+  // The side vector points right, so a positive turn about forward leans
+  // right; left turns (positive curvature) lean left
+  pose.up.applyAxisAngle(forward.normalize(), -cameraLeanRadians);
+}
+
+/* Eases lean and FOV towards their speed/curvature goals each frame */
+function updateCameraDynamics(deltaSeconds: number) {
+  const config = cameraDynamicsConfig;
+  const isActive = isCameraDynamicsActive();
+  const speed = dynamicsSpeed();
+
+  let leanGoal = 0;
+  let fovGoal = config.baseFov;
+  if (isActive && isRideActive && sampledPts.length > 2) {
+    const kappa = signedCurvatureAtIndex(distanceToIndex(rideProgressS));
+    const maxLean = THREE.MathUtils.degToRad(config.maxLeanDegrees);
+    leanGoal = clampNumber(
+      Math.atan((speed * speed * kappa) / GRAVITY_MPS2) * config.leanScale,
+      -maxLean,
+      maxLean
+    );
+  }
+  if (isActive && (cameraMode === 'cockpit' || cameraMode === 'chase')) {
+    fovGoal = Math.min(
+      config.maxFov,
+      config.baseFov + speed * config.fovPerSpeed
+    );
+  }
+
+  if (!isActive) {
+    cameraLeanRadians = 0;
+  } else if (deltaSeconds > 0) {
+    const alpha =
+      1 - Math.exp(-deltaSeconds / Math.max(0.01, config.responseSeconds));
+    cameraLeanRadians += (leanGoal - cameraLeanRadians) * alpha;
+  }
+  const fovAlpha = isActive
+    ? 1 - Math.exp(-deltaSeconds / Math.max(0.01, config.responseSeconds))
+    : 1;
+  const fov = rideCamera.fov + (fovGoal - rideCamera.fov) * fovAlpha;
+  if (Math.abs(fov - rideCamera.fov) > 1e-3) {
+    rideCamera.fov = fov;
+    rideCamera.updateProjectionMatrix();
+  }
+}
+
+const reducedMotionInput = document.getElementById(
+  'reducedMotion'
+) as HTMLInputElement;
+if (reducedMotionInput) reducedMotionInput.checked = isReducedMotion;
+reducedMotionInput?.addEventListener('change', () => {
+  isReducedMotion = reducedMotionInput.checked;
+  dbg(`Toggle: Reduced Motion = ${isReducedMotion}`);
+});
+reducedMotionQuery?.addEventListener?.('change', (e) => {
+  isReducedMotion = e.matches;
+  if (reducedMotionInput) reducedMotionInput.checked = isReducedMotion;
+  dbg(`System reduced motion: ${isReducedMotion}`);
+});
+const cameraDynamicsInput = document.getElementById(
+  'cameraDynamics'
+) as HTMLInputElement;
+cameraDynamicsInput?.addEventListener('change', () => {
+  cameraDynamicsConfig.enabled = cameraDynamicsInput.checked;
+  dbg(`Toggle: Camera Dynamics = ${cameraDynamicsConfig.enabled}`);
+});
+
+(
+  [
+    ['camSmoothingWindow', 'smoothingWindowMeters'],
+    ['camLeanScale', 'leanScale'],
+    ['camMaxLean', 'maxLeanDegrees'],
+    ['camSpeedLookAhead', 'lookAheadSecondsPerSpeed'],
+    ['camFovPerSpeed', 'fovPerSpeed'],
+    ['camResponse', 'responseSeconds'],
+  ] as const
+).forEach(([id, key]) => {
+  const input = document.getElementById(id) as HTMLInputElement;
+  input?.addEventListener('input', () => {
+    const value = parseFloat(input.value);
+    if (!Number.isFinite(value) || value < 0) return;
+    cameraDynamicsConfig[key] = value;
+    dbg(`Input: Camera ${key} = ${value}`);
+  });
+});
+
+// FOVs outside this range give a degenerate or useless projection
+const CAMERA_FOV_MIN = 20;
+const CAMERA_FOV_MAX = 140;
+const cameraBaseFovInput = document.getElementById(
+  'camBaseFov'
+) as HTMLInputElement;
+const cameraMaxFovInput = document.getElementById(
+  'camMaxFov'
+) as HTMLInputElement;
+
+/* Clamps both FOVs to the range with max >= base and writes back the
+   result; on change rather than input so it does not fight typing */
+function applyCameraFovInputs() {
+  const base = parseFloat(cameraBaseFovInput.value);
+  const max = parseFloat(cameraMaxFovInput.value);
+  if (Number.isFinite(base)) {
+    cameraDynamicsConfig.baseFov = clampNumber(
+      base,
+      CAMERA_FOV_MIN,
+      CAMERA_FOV_MAX
+    );
+  }
+  if (Number.isFinite(max)) {
+    cameraDynamicsConfig.maxFov = clampNumber(
+      max,
+      CAMERA_FOV_MIN,
+      CAMERA_FOV_MAX
+    );
+  }
+  cameraDynamicsConfig.maxFov = Math.max(
+    cameraDynamicsConfig.maxFov,
+    cameraDynamicsConfig.baseFov
+  );
+  if (base !== cameraDynamicsConfig.baseFov) {
+    cameraBaseFovInput.value = String(cameraDynamicsConfig.baseFov);
+  }
+  if (max !== cameraDynamicsConfig.maxFov) {
+    cameraMaxFovInput.value = String(cameraDynamicsConfig.maxFov);
+  }
+  dbg(
+    `Input: Camera FOV base ${cameraDynamicsConfig.baseFov}, max ${cameraDynamicsConfig.maxFov}`
+  );
+}
+cameraBaseFovInput?.addEventListener('change', applyCameraFovInputs);
+cameraMaxFovInput?.addEventListener('change', applyCameraFovInputs);
+
+/* ============================================================================
+   SECTION: DOM GRABS (HUD + MODAL + CONFIG TOGGLE)
+============================================================================ */
+
+const hudBarElement = document.getElementById('bar') as HTMLDivElement;
+const hudNeedleElement = document.getElementById('needle') as HTMLDivElement;
+const hudTargetElement = document.getElementById('target') as HTMLDivElement;
+const hudCenterlineElement = document.getElementById(
+  'centerline'
+) as HTMLDivElement;
+const scoreTextElement = document.getElementById('score') as HTMLSpanElement;
+const extraHudElement = document.getElementById('extraHud') as HTMLDivElement;
+const steeringWheelUiElement = document.getElementById(
+  'steeringWheelUi'
+) as HTMLImageElement;
+const targetSmoothingInput = document.getElementById(
+  'targetSmoothing'
+) as HTMLInputElement;
+const heartsTextElement = document.getElementById('hearts') as HTMLDivElement;
+const lapTextElement = document.getElementById('lap') as HTMLDivElement;
+const lapsInput = document.getElementById('laps') as HTMLInputElement;
+const leadDistanceInput = document.getElementById(
+  'leadDistance'
+) as HTMLInputElement;
+const cameraOffsetMinInput = document.getElementById(
+  'cameraOffsetMin'
+) as HTMLInputElement;
+const cameraOffsetMaxInput = document.getElementById(
+  'cameraOffsetMax'
+) as HTMLInputElement;
+const tryAgainModalElement = document.getElementById('modal') as HTMLDivElement;
+// const damageVignetteElement = document.getElementById("vignette") as HTMLDivElement;
+const damageLeftOverlay = document.getElementById(
+  'damageLeft'
+) as HTMLDivElement;
+const damageRightOverlay = document.getElementById(
+  'damageRight'
+) as HTMLDivElement;
+const successModalElement = document.getElementById(
+  'successModal'
+) as HTMLDivElement;
+const successGradeElement = document.getElementById(
+  'successGrade'
+) as HTMLSpanElement;
+const successAccuracyElement = document.getElementById(
+  'successAccuracy'
+) as HTMLSpanElement;
+const streakTextElement = document.getElementById('streak') as HTMLSpanElement;
+const successScoreElement = document.getElementById(
+  'successScore'
+) as HTMLSpanElement;
+const debugConfigPanel = document.getElementById(
+  'debugConfig'
+) as HTMLDivElement;
+const toggleConfigButton = document.getElementById(
+  'toggle-ui'
+) as HTMLButtonElement;
+
+const pathNameSpan = document.getElementById('pathName') as HTMLSpanElement;
+const pathDateSpan = document.getElementById('pathDate') as HTMLSpanElement;
+const toggleExtraHudButton = document.getElementById(
+  'toggle-extra-hud'
+) as HTMLButtonElement;
+const calibrationModalElement = document.getElementById(
+  'calibrationModal'
+) as HTMLDivElement;
+const calibrationStartButton = document.getElementById(
+  'calibrationStartRide'
+) as HTMLButtonElement;
+const calibrateGyroButton = document.getElementById(
+  'calibrateGyro'
+) as HTMLButtonElement;
+const successRestartButton = document.getElementById(
+  'successRestart'
+) as HTMLButtonElement;
+
+const tensionInput = document.getElementById('tension') as HTMLInputElement;
+const tensionVal = document.getElementById('tensionVal') as HTMLSpanElement;
+// Path & Appearance UI
+const resScaleInput = document.getElementById('resScale') as HTMLInputElement;
+const roadToggle = document.getElementById('roadToggle') as HTMLInputElement;
+const roadMeshSettings = document.getElementById(
+  'roadMeshSettings'
+) as HTMLDivElement;
+const roadWidthInput = document.getElementById('roadWidth') as HTMLInputElement;
+const heightScaleInput = document.getElementById(
+  'heightScale'
+) as HTMLInputElement;
+const roadMaterialPresetInput = document.getElementById(
+  'roadMaterialPreset'
+) as HTMLSelectElement;
+const offTrackMinInput = document.getElementById(
+  'offTrackMin'
+) as HTMLInputElement;
+const offTrackMaxInput = document.getElementById(
+  'offTrackMax'
+) as HTMLInputElement;
+// const groundTexInput = document.getElementById('groundTex') as HTMLInputElement;
+// const btnClearTex = document.getElementById('btnClearTex') as HTMLButtonElement;
+
+const fadeEffectInput = document.getElementById(
+  'fadeEffect'
+) as HTMLSelectElement;
+const fadeEffectSettings = document.getElementById(
+  'fadeEffectSettings'
+) as HTMLDivElement;
+const fadeInStartInput = document.getElementById(
+  'fadeInStart'
+) as HTMLInputElement;
+const fadeInEndInput = document.getElementById('fadeInEnd') as HTMLInputElement;
+const fadeOutStartInput = document.getElementById(
+  'fadeOutStart'
+) as HTMLInputElement;
+const fadeOutEndInput = document.getElementById(
+  'fadeOutEnd'
+) as HTMLInputElement;
+const hdrToggle = document.getElementById('hdrToggle') as HTMLInputElement;
+const hdrSettings = document.getElementById('hdrSettings') as HTMLDivElement;
+const hdrBackgroundToggle = document.getElementById(
+  'hdrBackgroundToggle'
+) as HTMLInputElement;
+const hdrExposureInput = document.getElementById(
+  'hdrExposure'
+) as HTMLInputElement;
+const hdrExposureVal = document.getElementById(
+  'hdrExposureVal'
+) as HTMLSpanElement;
+const fogToggle = document.getElementById('fogToggle') as HTMLInputElement;
+const fogRadiusInput = document.getElementById('fogRadius') as HTMLInputElement;
+const fogRadiusValueLabel = document.getElementById(
+  'fogRadiusVal'
+) as HTMLSpanElement;
+const fogSettingsContainer = document.getElementById(
+  'fogSettings'
+) as HTMLDivElement;
+
+const importJsonInput = document.getElementById(
+  'importJson'
+) as HTMLInputElement;
+// Track Editor UI
+const editModeToggle = document.getElementById(
+  'editModeToggle'
+) as HTMLInputElement;
+const closedTrackToggle = document.getElementById(
+  'closedTrackToggle'
+) as HTMLInputElement;
+const segSpeedTableBody = document.getElementById(
+  'segSpeedTableBody'
+) as HTMLTableSectionElement;
+const downloadTrackButton = document.getElementById(
+  'downloadTrack'
+) as HTMLButtonElement;
+const trackErrorModalElement = document.getElementById(
+  'trackErrorModal'
+) as HTMLDivElement;
+const trackErrorTitleElement = document.getElementById(
+  'trackErrorTitle'
+) as HTMLHeadingElement;
+const trackErrorSourceElement = document.getElementById(
+  'trackErrorSource'
+) as HTMLSpanElement;
+const trackErrorListElement = document.getElementById(
+  'trackErrorList'
+) as HTMLUListElement;
+const trackErrorCloseButton = document.getElementById(
+  'trackErrorClose'
+) as HTMLButtonElement;
+
+// Advanced Speed Profile UI
+const wPrevStartInput = document.getElementById(
+  'wPrevStart'
+) as HTMLInputElement;
+const wPrevEndInput = document.getElementById('wPrevEnd') as HTMLInputElement;
+const wNextHoldInput = document.getElementById('wNextHold') as HTMLInputElement;
+const wNextAccelInput = document.getElementById(
+  'wNextAccel'
+) as HTMLInputElement;
+const speedChartCanvas = document.getElementById(
+  'speedChart'
+) as HTMLCanvasElement;
+const speedModelInput = document.getElementById(
+  'speedModel'
+) as HTMLSelectElement;
+const physicsSpeedSettings = document.getElementById(
+  'physicsSpeedSettings'
+) as HTMLDivElement;
+const angleSpeedSettings = document.getElementById(
+  'angleSpeedSettings'
+) as HTMLDivElement;
+const maxLateralAccelInput = document.getElementById(
+  'maxLateralAccel'
+) as HTMLInputElement;
+const maxAccelInput = document.getElementById('maxAccel') as HTMLInputElement;
+const maxBrakingInput = document.getElementById(
+  'maxBraking'
+) as HTMLInputElement;
+const p0_20_Input = document.getElementById('p0_20') as HTMLInputElement;
+const p20_45_Input = document.getElementById('p20_45') as HTMLInputElement;
+const p45_90_Input = document.getElementById('p45_90') as HTMLInputElement;
+const p90_120_Input = document.getElementById('p90_120') as HTMLInputElement;
+const p120_150_Input = document.getElementById('p120_150') as HTMLInputElement;
+const p150_165_Input = document.getElementById('p150_165') as HTMLInputElement;
+const p165_180_Input = document.getElementById('p165_180') as HTMLInputElement;
+const speedMultiplierInput = document.getElementById(
+  'speedMultiplier'
+) as HTMLInputElement;
+
+// Speedometer UI
+const speedoProgress = document.getElementById(
+  'speedoProgress'
+) as unknown as SVGUseElement;
+const speedoValue = document.getElementById(
+  'speedoValue'
+) as unknown as SVGTextElement;
+const speedoTicks = document.getElementById(
+  'speedoTicks'
+) as unknown as SVGGElement;
+let speedoArcLength = 0;
+
+/* ============================================================================
+   SECTION: GAME STATE (SCORE / HEARTS) + HUD UPDATE
+============================================================================ */
+
+let playerScore = 0;
+let playerHearts = 3;
+let scoreAccumulatorSeconds = 0;
+// Accuracy scoring: each 0.1 s tick scores by how close the needle is to the
+// target centre, times a multiplier that grows while the streak lasts
+const SCORE_TICK_SECONDS = 0.1;
+const SCORE_POINTS_PER_TICK = 10; // a dead-centre tick at ×1
+const STREAK_STEP_SECONDS = 2; // on-target time per multiplier step
+const STREAK_MULTIPLIER_STEP = 0.5;
+const STREAK_MULTIPLIER_MAX = 4;
+const GRADE_THRESHOLDS: [grade: string, minAccuracy: number][] = [
+  ['S', 0.85],
+  ['A', 0.7],
+  ['B', 0.5],
+  ['C', 0],
+];
+let streakTicks = 0;
+let accuracySum = 0;
+let accuracyTicks = 0;
+
+// Damage model: what counts as "outside", how long before it hurts, and how
+// hearts are lost and regained
+type DamageSource = 'target' | 'offTrack' | 'both';
+interface DamageConfig {
+  source: DamageSource;
+  graceSeconds: number; // continuous time outside before a hit
+  invulnerabilitySeconds: number; // no further hits for this long after one
+  maxHearts: number;
+  regenSeconds: number; // continuous time on target per regained heart (0 = off)
+}
+const damageConfig: DamageConfig = {
+  source: 'target',
+  graceSeconds: 0.2,
+  invulnerabilitySeconds: 1,
+  maxHearts: 3,
+  regenSeconds: 0,
+};
+let damageOutsideSeconds = 0;
+let hasHitThisExcursion = false; // one heart per trip outside
+// The grace timer only runs once the player has been inside, so a ride
+// that starts off target doesn't cost a heart before they can steer
+let hasBeenInsideForDamage = false;
+let invulnerableSecondsLeft = 0;
+let regenOnTargetSeconds = 0;
+let noDamageMode = false; // New: for debugging, prevent losing hearts/score
+let currentSpeedForHud = 0; // For debugging
+let isExtraHudVisible = false;
+let offTrackMin = parseFloat(offTrackMinInput?.value ?? '') || -0.1;
+let offTrackMax = parseFloat(offTrackMaxInput?.value ?? '') || 0.1;
+let fogRadiusMeters = parseFloat(fogRadiusInput?.value ?? '') || 30;
+
+if (extraHudElement) {
+  extraHudElement.style.display = 'none';
+}
+
+function updateLapHud() {
+  if (!lapTextElement) return;
+  const showLaps = isTrackClosed || isRideLooping;
+  lapTextElement.style.display = showLaps ? '' : 'none';
+  const isEndless = isRideLooping || !isTrackClosed || lapTarget <= 0;
+  lapTextElement.textContent = isEndless
+    ? `Lap ${currentLap}`
+    : `Lap ${currentLap}/${lapTarget}`;
+}
+
+function resetPlayerHearts() {
+  playerHearts = damageConfig.maxHearts;
+  damageOutsideSeconds = 0;
+  hasHitThisExcursion = false;
+  hasBeenInsideForDamage = false;
+  invulnerableSecondsLeft = 0;
+  regenOnTargetSeconds = 0;
+  renderHearts();
+}
+
+function renderHearts() {
+  if (!heartsTextElement) return;
+  heartsTextElement.textContent =
+    '❤'.repeat(playerHearts) +
+    '♡'.repeat(Math.max(0, damageConfig.maxHearts - playerHearts));
+  heartsTextElement.classList.toggle(
+    'invulnerable',
+    invulnerableSecondsLeft > 0
+  );
+}
+
+function isOutsideForDamage(isOnTarget: boolean) {
+  const isOffTrack =
+    cameraOffsetCurrent < offTrackMin || cameraOffsetCurrent > offTrackMax;
+  if (damageConfig.source === 'offTrack') return isOffTrack;
+  if (damageConfig.source === 'both') return isOffTrack || !isOnTarget;
+  return !isOnTarget;
+}
+
+/* Hits land once per excursion after the grace period, never while
+   invulnerable; sustained time on target can earn hearts back */
+function updateDamage(isOnTarget: boolean, deltaSeconds: number) {
+  const wasInvulnerable = invulnerableSecondsLeft > 0;
+  invulnerableSecondsLeft = Math.max(0, invulnerableSecondsLeft - deltaSeconds);
+
+  if (!isOutsideForDamage(isOnTarget)) {
+    damageOutsideSeconds = 0;
+    hasHitThisExcursion = false;
+    hasBeenInsideForDamage = true;
+  } else if (hasBeenInsideForDamage) {
+    damageOutsideSeconds += deltaSeconds;
+  }
+
+  if (
+    !hasHitThisExcursion &&
+    damageOutsideSeconds >= damageConfig.graceSeconds &&
+    invulnerableSecondsLeft <= 0
+  ) {
+    hasHitThisExcursion = true;
+    invulnerableSecondsLeft = damageConfig.invulnerabilitySeconds;
+    regenOnTargetSeconds = 0;
+    if (!noDamageMode) {
+      // Only lose heart (and log it for the review) if not in no-damage mode
+      playerHearts = Math.max(0, playerHearts - 1);
+      rideTelemetry.heartLossS.push(rideProgressS);
+    }
+    renderHearts();
+    flashDamageVignette();
+    if (playerHearts <= 0) {
+      isRideActive = false;
+      stopGyroRecording();
+      orbitControls.enabled = true;
+      tryAgainModalElement.style.display = 'grid';
+    }
+    return;
+  }
+
+  if (damageConfig.regenSeconds > 0 && playerHearts < damageConfig.maxHearts) {
+    regenOnTargetSeconds = isOnTarget ? regenOnTargetSeconds + deltaSeconds : 0;
+    if (regenOnTargetSeconds >= damageConfig.regenSeconds) {
+      regenOnTargetSeconds = 0;
+      playerHearts += 1;
+      renderHearts();
+      dbg(`Heart regenerated (${playerHearts}/${damageConfig.maxHearts})`);
+    }
+  }
+  if (wasInvulnerable && invulnerableSecondsLeft <= 0) renderHearts();
+}
+
+function resetRideScoring() {
+  playerScore = 0;
+  scoreAccumulatorSeconds = 0;
+  streakTicks = 0;
+  accuracySum = 0;
+  accuracyTicks = 0;
+  scoreTextElement.textContent = '0';
+  updateStreakHud();
+}
+
+function streakMultiplier() {
+  const steps = Math.floor(
+    (streakTicks * SCORE_TICK_SECONDS) / STREAK_STEP_SECONDS
+  );
+  return Math.min(STREAK_MULTIPLIER_MAX, 1 + steps * STREAK_MULTIPLIER_STEP);
+}
+
+function updateStreakHud() {
+  if (!streakTextElement) return;
+  const multiplier = streakMultiplier();
+  streakTextElement.textContent = `×${multiplier.toFixed(1)}`;
+  streakTextElement.style.opacity = multiplier > 1 ? '1' : '0.5';
+}
+
+/* 1 at the target centre, falling to 0 at its edges and beyond */
+function targetAccuracy(needleNormalized: number) {
+  const halfWidth = clampNumber(targetWidthNormalized, 0.02, 1) / 2;
+  const distance = Math.abs(needleNormalized - targetCenterNormalizedSmoothed);
+  return clampNumber(1 - distance / halfWidth, 0, 1);
+}
+
+/* Mean per-tick accuracy over the ride so far (0..1) */
+function rideAccuracy() {
+  return accuracyTicks > 0 ? accuracySum / accuracyTicks : 0;
+}
+
+function gradeForAccuracy(accuracy: number) {
+  const match = GRADE_THRESHOLDS.find(([, min]) => accuracy >= min);
+  return match ? match[0] : 'C';
+}
+
+function flashDamageVignette() {
+  if (!hudBarElement) return;
+  hudBarElement.classList.add('damage');
+  setTimeout(() => hudBarElement.classList.remove('damage'), 350);
+}
+
+function refreshOffTrackThresholds() {
+  const minVal = parseFloat(offTrackMinInput?.value ?? '');
+  const maxVal = parseFloat(offTrackMaxInput?.value ?? '');
+  offTrackMin = Number.isFinite(minVal) ? minVal : -0.1;
+  offTrackMax = Number.isFinite(maxVal) ? maxVal : 0.1;
+  if (offTrackMin >= offTrackMax) {
+    offTrackMax = offTrackMin + 0.05;
+    if (offTrackMaxInput) {
+      offTrackMaxInput.value = offTrackMax.toFixed(2);
+    }
+  }
+}
+
+function updateOffTrackOverlays(offset: number) {
+  if (!damageLeftOverlay || !damageRightOverlay) return;
+  const leftIntensity = offset < offTrackMin ? 1 : 0;
+  const rightIntensity = offset > offTrackMax ? 1 : 0;
+  damageLeftOverlay.style.opacity =
+    leftIntensity > 0 ? leftIntensity.toFixed(2) : '0';
+  damageRightOverlay.style.opacity =
+    rightIntensity > 0 ? rightIntensity.toFixed(2) : '0';
+}
+
+function setFogRadiusMeters(value: number) {
+  fogRadiusMeters = THREE.MathUtils.clamp(
+    Number.isFinite(value) ? value : 30,
+    0,
+    100
+  );
+  if (fogRadiusInput) {
+    fogRadiusInput.value = fogRadiusMeters.toFixed(0);
+  }
+  if (fogRadiusValueLabel) {
+    fogRadiusValueLabel.textContent = `${Math.round(fogRadiusMeters)}m`;
+  }
+}
+
+function updateSceneFog() {
+  const enabled = fogToggle?.checked ?? false;
+  if (fogSettingsContainer) {
+    fogSettingsContainer.style.display = enabled ? 'flex' : 'none';
+  }
+  if (enabled && fogRadiusMeters > MIN_FOG_RADIUS) {
+    const density = 1 / Math.max(fogRadiusMeters, MIN_FOG_RADIUS);
+    const fogExp = scene.fog as THREE.FogExp2 | null;
+    if (!fogExp || !(fogExp as any).isFogExp2) {
+      scene.fog = new THREE.FogExp2(FOG_COLOR, density);
+    } else {
+      fogExp.color.set(FOG_COLOR);
+      fogExp.density = density;
+    }
+  } else {
+    scene.fog = null;
+  }
+}
+
+function updateHudAndScoring(needleNormalized: number, deltaSeconds: number) {
+  // Apply smoothing to the target's center position
+  targetCenterNormalizedSmoothed +=
+    (targetCenterNormalized - targetCenterNormalizedSmoothed) *
+    targetSmoothingAlpha;
+
+  const barWidthPx = hudBarElement.clientWidth;
+  const normalizedToPixels = (n: number) =>
+    (clampNumber(n, -1, 1) + 1) * 0.5 * barWidthPx;
+  const targetWidthPx = Math.max(
+    6,
+    barWidthPx * clampNumber(targetWidthNormalized, 0.02, 1)
+  );
+  const targetLeftPx =
+    normalizedToPixels(targetCenterNormalizedSmoothed) - targetWidthPx / 2;
+  const needleLeftPx = normalizedToPixels(needleNormalized) - 2;
+  hudNeedleElement.style.left = `${needleLeftPx}px`;
+  hudTargetElement.style.left = `${targetLeftPx}px`;
+  hudTargetElement.style.width = `${targetWidthPx}px`;
+  if (hudCenterlineElement) {
+    const centerlineLeftPx = normalizedToPixels(0) - 2;
+    hudCenterlineElement.style.left = `${centerlineLeftPx}px`;
+  }
+  const isOverlapping = !(
+    needleLeftPx + 4 < targetLeftPx ||
+    needleLeftPx > targetLeftPx + targetWidthPx
+  );
+  hudBarElement.style.boxShadow = isOverlapping
+    ? '0 0 12px rgba(46,204,113,0.8)'
+    : 'none';
+  hudBarElement.classList.toggle('ok', isOverlapping);
+
+  // Accuracy-weighted scoring on a fixed tick; a miss breaks the streak
+  if (isRideActive) {
+    scoreAccumulatorSeconds += deltaSeconds;
+    while (scoreAccumulatorSeconds >= SCORE_TICK_SECONDS) {
+      scoreAccumulatorSeconds -= SCORE_TICK_SECONDS;
+      const accuracy = targetAccuracy(needleNormalized);
+      accuracySum += accuracy;
+      accuracyTicks += 1;
+      recordTelemetrySample(needleNormalized, accuracy, isOverlapping);
+      if (isOverlapping) {
+        streakTicks += 1;
+        playerScore += Math.round(
+          SCORE_POINTS_PER_TICK * accuracy * streakMultiplier()
+        );
+      } else {
+        streakTicks = 0;
+      }
+    }
+    updateStreakHud();
+  }
+
+  if (isRideActive && !isRidePaused) updateDamage(isOverlapping, deltaSeconds);
+  scoreTextElement.textContent = String(playerScore);
+
+  // Update extra HUD
+  const camRot = rideCamera.rotation;
+  const r2d = THREE.MathUtils.radToDeg;
+  const rotStr = `x:${r2d(camRot.x).toFixed(1)} y:${r2d(camRot.y).toFixed(
+    1
+  )} z:${r2d(camRot.z).toFixed(1)}`;
+  const gyroStr = `α:${rawGyroAlpha.toFixed(1)} β:${rawGyroBeta.toFixed(
+    1
+  )} γ:${rawGyroGamma.toFixed(1)}`;
+  extraHudElement.innerHTML =
+    `<strong>Speed:</strong> ${currentSpeedForHud.toFixed(2)} m/s<br>` +
+    `<strong>Steering:</strong> ${steeringSources[activeSteeringSourceId].label}<br>` +
+    `<strong>Camera Rotation (xyz):</strong> ${rotStr}<br>` +
+    `<strong>Gyro Raw Rotation (xyz):</strong> ${gyroStr}<br>` +
+    `<strong>Camera Offset (m):</strong> ${cameraOffsetCurrent.toFixed(
+      2
+    )}<br>` +
+    `<strong>Needle (norm):</strong> ${needleNormalized.toFixed(3)}`;
+}
+
+/* ============================================================================
+   SECTION: UI WIRING (BUTTONS + INPUTS)
+============================================================================ */
+
+const durationInput = document.getElementById('duration') as HTMLInputElement;
+const durationModeInput = document.getElementById(
+  'durationMode'
+) as HTMLSelectElement;
+const applyDurationButton = document.getElementById(
+  'applyDuration'
+) as HTMLButtonElement;
+const predictedDurationElement = document.getElementById(
+  'predictedDuration'
+) as HTMLSpanElement;
+const loopCheckbox = document.getElementById('loop') as HTMLInputElement;
+
+let isConfigPanelVisible = false;
+function setConfigPanelVisible(visible: boolean) {
+  isConfigPanelVisible = visible;
+  debugConfigPanel.style.display = visible ? '' : 'none';
+  toggleConfigButton.textContent = visible ? 'Hide Config' : 'Show Config';
+}
+
+document.getElementById('stop')?.addEventListener('click', () => {
+  dbg('Button: Stop');
+  stopRide();
+  resetRideScoring();
+  resetPlayerHearts();
+});
+document.getElementById('reset')?.addEventListener('click', () => {
+  dbg('Button: Reset Camera');
+  stopRide();
+  resetCameraToPathStart();
+});
+
+const enableGyroButton = document.getElementById(
+  'enable-gyro'
+) as HTMLButtonElement;
+const centerGyroButton = document.getElementById(
+  'center-gyro'
+) as HTMLButtonElement;
+const gyroSensitivityInput = document.getElementById(
+  'gyro-sense'
+) as HTMLInputElement;
+
+enableGyroButton?.addEventListener('click', async () => {
+  if (!isGyroEnabled) {
+    dbg('Button: Enable Gyro');
+    const ok = await enableGyroscope();
+    if (!ok) {
+      alert(
+        'Gyro permission denied or not available. Use HTTPS/localhost and tap (iOS).'
+      );
+      return;
+    }
+    enableGyroButton.textContent = 'Disable Gyro';
+    await enterLandscapeFlow();
+  } else {
+    dbg('Button: Disable Gyro');
+    disableGyroscope();
+    enableGyroButton.textContent = 'Enable Gyro';
+  }
+});
+centerGyroButton?.addEventListener('click', () => {
+  dbg('Button: Recalibrate Gyro');
+  stopRide();
+  if (calibrationModalElement) {
+    calibrationModalElement.style.display = 'grid';
+  }
+});
+gyroSensitivityInput?.addEventListener('input', () => {
+  const value = parseFloat(gyroSensitivityInput.value);
+  yawSensitivity = Number.isFinite(value) ? value : 1.0;
+  dbg(`Input: Gyro Sensitivity = ${yawSensitivity}`);
+});
+
+const targetWidthInput = document.getElementById(
+  'targetWidth'
+) as HTMLInputElement;
+targetWidthInput?.addEventListener('input', () => {
+  const value = parseFloat(targetWidthInput.value);
+  if (Number.isFinite(value)) {
+    targetWidthNormalized = clampNumber(value, 0.02, 1);
+    dbg(`Input: Target Width = ${targetWidthNormalized}`);
+  }
+});
+targetSmoothingInput?.addEventListener('input', () => {
+  const value = parseFloat(targetSmoothingInput.value);
+  if (Number.isFinite(value)) {
+    targetSmoothingAlpha = clampNumber(value, 0, 1);
+    dbg(`Input: Target Smoothing = ${targetSmoothingAlpha}`);
+  }
+});
+
+calibrateGyroButton?.addEventListener('click', () => {
+  dbg('Button: Calibrate Gyro');
+  centerGyroscopeHeading();
+  placeCameraAtPathT(rideProgressT);
+});
+
+calibrationStartButton?.addEventListener('click', () => {
+  dbg('Button: Calibration Start Ride');
+  if (calibrationModalElement) {
+    calibrationModalElement.style.display = 'none';
+  }
+  runCountdown(() => startRide(!!loopCheckbox.checked));
+});
+
+successRestartButton?.addEventListener('click', () => {
+  dbg('Button: Restart (from success modal)');
+  if (successModalElement) {
+    successModalElement.style.display = 'none';
+  }
+  stopRide();
+  enterLandscapeFlow();
+});
+
+toggleExtraHudButton?.addEventListener('click', () => {
+  isExtraHudVisible = !isExtraHudVisible;
+  if (extraHudElement) {
+    extraHudElement.style.display = isExtraHudVisible ? '' : 'none';
+  }
+  if (toggleExtraHudButton) {
+    toggleExtraHudButton.textContent = isExtraHudVisible
+      ? 'Hide Extra HUD'
+      : 'Show Extra HUD';
+  }
+});
+
+cameraOffsetMinInput?.addEventListener('input', () => {
+  const value = parseFloat(cameraOffsetMinInput.value);
+  if (Number.isFinite(value)) {
+    cameraOffsetMin = value;
+    dbg(`Input: Camera Offset Min = ${cameraOffsetMin}`);
+  }
+});
+
+cameraOffsetMaxInput?.addEventListener('input', () => {
+  const value = parseFloat(cameraOffsetMaxInput.value);
+  if (Number.isFinite(value)) {
+    cameraOffsetMax = value;
+    dbg(`Input: Camera Offset Max = ${cameraOffsetMax}`);
+  }
+});
+
+lapsInput?.addEventListener('input', () => {
+  const value = parseInt(lapsInput.value, 10);
+  lapTarget = Number.isFinite(value) ? Math.max(0, value) : 3;
+  dbg(`Input: Laps = ${lapTarget}`);
+  updateLapHud();
+  updatePredictedDurationUI();
+});
+
+const noDamageToggle = document.getElementById(
+  'noDamageToggle'
+) as HTMLInputElement;
+noDamageToggle?.addEventListener('change', () => {
+  noDamageMode = noDamageToggle.checked;
+  dbg(`Toggle: No Damage = ${noDamageMode}`);
+});
+
+const damageSourceInput = document.getElementById(
+  'damageSource'
+) as HTMLSelectElement;
+damageSourceInput?.addEventListener('change', () => {
+  const value = damageSourceInput.value;
+  damageConfig.source =
+    value === 'offTrack' || value === 'both' ? value : 'target';
+  dbg(`Input: Damage Source = ${damageConfig.source}`);
+});
+(
+  [
+    [document.getElementById('damageGrace'), 'graceSeconds'],
+    [
+      document.getElementById('damageInvulnerability'),
+      'invulnerabilitySeconds',
+    ],
+    [document.getElementById('maxHearts'), 'maxHearts'],
+    [document.getElementById('heartRegen'), 'regenSeconds'],
+  ] as [HTMLInputElement | null, Exclude<keyof DamageConfig, 'source'>][]
+).forEach(([input, key]) => {
+  input?.addEventListener('input', () => {
+    const value = parseFloat(input.value);
+    if (!Number.isFinite(value) || value < 0) return;
+    if (key === 'maxHearts') {
+      damageConfig.maxHearts = Math.max(1, Math.round(value));
+      // Outside a ride the HUD previews the new heart count
+      if (!isRideActive) resetPlayerHearts();
+      else {
+        playerHearts = Math.min(playerHearts, damageConfig.maxHearts);
+        renderHearts();
+      }
+    } else {
+      damageConfig[key] = value;
+    }
+    dbg(`Input: Damage ${key} = ${damageConfig[key]}`);
+  });
+});
+
+const toggleCurvePointMarkersButton = document.getElementById(
+  'toggleCurvePointMarkers'
+) as HTMLButtonElement;
+let curvePointMarkersVisible = true; // Visible by default
+curvePointMarkersGroup.visible = curvePointMarkersVisible;
+toggleCurvePointMarkersButton?.addEventListener('click', () => {
+  curvePointMarkersVisible = !curvePointMarkersVisible;
+  curvePointMarkersGroup.visible = curvePointMarkersVisible;
+  dbg(`Toggle: Curve Point Markers = ${curvePointMarkersVisible}`);
+  toggleCurvePointMarkersButton.textContent = curvePointMarkersVisible
+    ? 'Hide Curve Point Markers'
+    : 'Show Curve Point Markers';
+});
+
+const toggleCartButton = document.getElementById(
+  'toggleCart'
+) as HTMLButtonElement;
+const toggleLeadMarkerButton = document.getElementById(
+  'toggleLeadMarker'
+) as HTMLButtonElement;
+
+const toggleGridButton = document.getElementById(
+  'toggleGrid'
+) as HTMLButtonElement;
+toggleGridButton.textContent = gridHelper.visible ? 'Hide Grid' : 'Show Grid';
+
+let cartVisible = false;
+toggleCartButton.textContent = cartVisible ? 'Hide Cart' : 'Show Cart';
+toggleCartButton?.addEventListener('click', () => {
+  cartVisible = !cartVisible;
+  cart.visible = cartVisible;
+  dbg(`Toggle: Cart = ${cartVisible}`);
+  toggleCartButton.textContent = cartVisible ? 'Hide Cart' : 'Show Cart';
+});
+
+let leadMarkerVisible = false;
+toggleLeadMarkerButton.textContent = leadMarkerVisible
+  ? 'Hide Lead Marker'
+  : 'Show Lead Marker';
+toggleLeadMarkerButton?.addEventListener('click', () => {
+  leadMarkerVisible = !leadMarkerVisible;
+  leadMarkerMesh.visible = leadMarkerVisible;
+  dbg(`Toggle: Lead Marker = ${leadMarkerVisible}`);
+  toggleLeadMarkerButton.textContent = leadMarkerVisible
+    ? 'Hide Lead Marker'
+    : 'Show Lead Marker';
+});
+
+toggleGridButton?.addEventListener('click', () => {
+  gridHelper.visible = !gridHelper.visible;
+  toggleGridButton.textContent = gridHelper.visible ? 'Hide Grid' : 'Show Grid';
+});
+
+function setupSpeedometer() {
+  const arc = document.getElementById('speedoArc') as unknown as SVGPathElement;
+  if (!arc) return;
+  speedoArcLength = arc.getTotalLength();
+  if (speedoProgress) {
+    speedoProgress.style.strokeDasharray = String(speedoArcLength);
+    speedoProgress.style.strokeDashoffset = String(speedoArcLength);
+  }
+
+  // Generate ticks
+  const numTicks = 10; // e.g., 0, 20, 40... 180
+  const tickLength = 10;
+  const tickInnerRadius = 80 - 12; // arc radius - stroke width
+
+  for (let i = 0; i < numTicks; i++) {
+    const progress = i / (numTicks - 1);
+    // Angle from -180 (left) to 0 (right) in degrees for a semicircle starting from the left
+    const angleDeg = -180 + progress * 180;
+    const angleRad = angleDeg * (Math.PI / 180);
+
+    const x1 = 100 + Math.cos(angleRad) * tickInnerRadius;
+    const y1 = 100 + Math.sin(angleRad) * tickInnerRadius;
+    const x2 = 100 + Math.cos(angleRad) * (tickInnerRadius - tickLength);
+    const y2 = 100 + Math.sin(angleRad) * (tickInnerRadius - tickLength);
+
+    const line = document.createElementNS('http://www.w3.org/2000/svg', 'line');
+    line.setAttribute('x1', String(x1));
+    line.setAttribute('y1', String(y1));
+    line.setAttribute('x2', String(x2));
+    line.setAttribute('y2', String(y2));
+    if (speedoTicks) {
+      speedoTicks.appendChild(line);
+    }
+  }
+}
+
+tensionInput.oninput = () => {
+  tension = parseFloat(tensionInput.value);
+  tensionVal.textContent = tension.toFixed(2);
+  rebuildCurveAndRoad();
+};
+
+resScaleInput.onchange = () => {
+  rebuildCurveAndRoad();
+};
+roadToggle.onchange = () => {
+  toggleRoadMeshVisibility();
+};
+roadWidthInput.onchange = () => {
+  rebuildCurveAndRoad();
+};
+heightScaleInput.onchange = () => {
+  rebuildCurveAndRoad();
+};
+roadMaterialPresetInput.onchange = () => {
+  if (roadMesh) {
+    roadMesh.material =
+      roadMaterials[roadMaterialPresetInput.value] || roadMaterials['default'];
+  }
+  rebuildCurveAndRoad();
+};
+offTrackMinInput?.addEventListener('input', () => {
+  refreshOffTrackThresholds();
+  updateOffTrackOverlays(cameraOffsetCurrent);
+});
+offTrackMaxInput?.addEventListener('input', () => {
+  refreshOffTrackThresholds();
+  updateOffTrackOverlays(cameraOffsetCurrent);
+});
+refreshOffTrackThresholds();
+updateOffTrackOverlays(0);
+fogToggle?.addEventListener('change', () => {
+  updateSceneFog();
+});
+fogRadiusInput?.addEventListener('input', () => {
+  const parsed = parseFloat(fogRadiusInput.value);
+  setFogRadiusMeters(parsed);
+  updateSceneFog();
+});
+setFogRadiusMeters(fogRadiusMeters);
+updateSceneFog();
+
+// const textureLoader = new THREE.TextureLoader();
+// function applyTexture(url: string) {
+//   textureLoader.load(url, (tex: THREE.Texture) => {
+//     tex.colorSpace = THREE.SRGBColorSpace;
+//     tex.wrapS = tex.wrapT = THREE.RepeatWrapping;
+//     tex.anisotropy = webglRenderer.capabilities.getMaxAnisotropy();
+//     groundMat.map = tex; groundMat.color.set(0xffffff); groundMat.needsUpdate = true;
+//   });
+// }
+// groundTexInput.onchange = () => {
+//   const file = groundTexInput.files?.[0]; if (!file) return;
+//   const url = URL.createObjectURL(file);
+//   applyTexture(url);
+// };
+// btnClearTex.onclick = () => {
+//   groundMat.map = null;
+//   groundMat.color.set(DEFAULT_GROUND_COLOR);
+//   groundMat.needsUpdate = true;
+// };
+
+function updateFadeSettingsVisibility() {
+  const show = fadeEffectInput.value === 'dynamic';
+  fadeEffectSettings.style.display = show ? 'flex' : 'none';
+}
+
+function updateFadeUniforms() {
+  for (const key in roadMaterials) {
+    const mat = roadMaterials[key];
+    if (mat.userData.shader) {
+      mat.userData.shader.uniforms.u_fadeInStart.value = parseFloat(
+        fadeInStartInput.value
+      );
+      mat.userData.shader.uniforms.u_fadeInEnd.value = parseFloat(
+        fadeInEndInput.value
+      );
+      mat.userData.shader.uniforms.u_fadeOutStart.value = parseFloat(
+        fadeOutStartInput.value
+      );
+      mat.userData.shader.uniforms.u_fadeOutEnd.value = parseFloat(
+        fadeOutEndInput.value
+      );
+    }
+  }
+}
+fadeEffectInput.onchange = () => {
+  updateFadeSettingsVisibility();
+  rebuildCurveAndRoad();
+};
+fadeInStartInput.oninput = updateFadeUniforms;
+fadeInEndInput.oninput = updateFadeUniforms;
+fadeOutStartInput.oninput = updateFadeUniforms;
+fadeOutEndInput.oninput = updateFadeUniforms;
+
+function updateHdrExposureFromUI() {
+  if (!hdrExposureInput) return;
+  const exposure = parseFloat(hdrExposureInput.value) || 1;
+  if (hdrExposureVal) {
+    hdrExposureVal.textContent = exposure.toFixed(2);
+  }
+  webglRenderer.toneMappingExposure = exposure;
+}
+
+function updateHdrBackgroundFromUI() {
+  if (!hdrToggle?.checked) return;
+  if (!hdrBackgroundToggle) return;
+  if (hdrBackgroundToggle.checked) {
+    if (hdrBackgroundTexture) {
+      scene.background = hdrBackgroundTexture;
+      webglRenderer.setClearColor(HDR_CLEAR_COLOR, 1);
+    } else {
+      ensureEnvironmentMapLoaded()
+        .then(() => {
+          if (
+            hdrToggle?.checked &&
+            hdrBackgroundToggle.checked &&
+            hdrBackgroundTexture
+          ) {
+            scene.background = hdrBackgroundTexture;
+            webglRenderer.setClearColor(HDR_CLEAR_COLOR, 1);
+          }
+        })
+        .catch(() => {});
+    }
+  } else {
+    scene.background = null;
+    webglRenderer.setClearColor(HDR_CLEAR_COLOR, 1);
+  }
+}
+
+function setHdrEnabledFromUI(enabled: boolean) {
+  if (hdrSettings) {
+    hdrSettings.style.display = enabled ? 'flex' : 'none';
+  }
+
+  if (!enabled) {
+    scene.environment = null;
+    scene.background = null;
+    webglRenderer.setClearColor(DEFAULT_CLEAR_COLOR, 1);
+    return;
+  }
+
+  ensureEnvironmentMapLoaded()
+    .then(() => {
+      if (!hdrEnvironmentTexture) return;
+      scene.environment = hdrEnvironmentTexture;
+      updateHdrExposureFromUI();
+      updateHdrBackgroundFromUI();
+    })
+    .catch((error) => {
+      const message = (error as Error)?.message ?? String(error);
+      dbg('Failed to load envmap.hdr: ' + message);
+      if (hdrToggle) hdrToggle.checked = false;
+      setHdrEnabledFromUI(false);
+    });
+}
+
+hdrToggle?.addEventListener('change', () =>
+  setHdrEnabledFromUI(hdrToggle.checked)
+);
+hdrBackgroundToggle?.addEventListener('change', () =>
+  updateHdrBackgroundFromUI()
+);
+hdrExposureInput?.addEventListener('input', () => updateHdrExposureFromUI());
+
+updateHdrExposureFromUI();
+setHdrEnabledFromUI(hdrToggle?.checked ?? false);
+
+(
+  [
+    [wPrevStartInput, 'wPrevStart'],
+    [wPrevEndInput, 'wPrevEnd'],
+    [wNextHoldInput, 'wNextHold'],
+    [wNextAccelInput, 'wNextAccel'],
+  ] as const
+).forEach(([input, key]) => {
+  input.oninput = () => {
+    const value = parseFloat(input.value);
+    if (!Number.isFinite(value)) return;
+    speedProfileConfig.windows[key] = value;
+    rebuildSpeedProfile();
+  };
+});
+
+(
+  [
+    [p0_20_Input, 'p0_20'],
+    [p20_45_Input, 'p20_45'],
+    [p45_90_Input, 'p45_90'],
+    [p90_120_Input, 'p90_120'],
+    [p120_150_Input, 'p120_150'],
+    [p150_165_Input, 'p150_165'],
+    [p165_180_Input, 'p165_180'],
+  ] as const
+).forEach(([input, key]) => {
+  input.oninput = () => {
+    const value = parseFloat(input.value);
+    if (!Number.isFinite(value)) return;
+    speedProfileConfig.anglePercents[key] = value;
+    rebuildSpeedProfile();
+  };
+});
+
+speedMultiplierInput?.addEventListener('input', () => {
+  const value = parseFloat(speedMultiplierInput.value);
+  if (!Number.isFinite(value) || value <= 0) return;
+  speedProfileConfig.speedMultiplier = value;
+  dbg(`Input: Speed Multiplier = ${value}`);
+  rebuildSpeedProfile();
+});
+
+function createDefaultDashedTexture(): THREE.CanvasTexture {
+  const dashLengthMeters = 3;
+  const gapLengthMeters = 3;
+  const centerDashWidthPx = 2;
+  const patternLengthMeters = dashLengthMeters + gapLengthMeters;
+  const canvas = document.createElement('canvas');
+  const canvasWidth = 64;
+  const canvasHeight = 128;
+  canvas.width = canvasWidth;
+  canvas.height = canvasHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#404040';
+  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  ctx.fillStyle = 'white';
+  const lineWidth = 2;
+  ctx.fillRect(0, 0, lineWidth, canvasHeight);
+  ctx.fillRect(canvasWidth - lineWidth, 0, lineWidth, canvasHeight);
+  const dashHeightPx = (dashLengthMeters / patternLengthMeters) * canvasHeight;
+  const dashX = canvasWidth / 2 - centerDashWidthPx / 2;
+  ctx.fillRect(dashX, 0, centerDashWidthPx, dashHeightPx);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.anisotropy = webglRenderer.capabilities.getMaxAnisotropy();
+  texture.repeat.y = 1 / patternLengthMeters;
+  return texture;
+}
+
+function createRacingTexture(): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas');
+  const canvasWidth = 64;
+  const canvasHeight = 64;
+  canvas.width = canvasWidth;
+  canvas.height = canvasHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#404040';
+  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  const curbWidth = 4;
+  const curbSegmentLength = canvasHeight / 2;
+  ctx.fillStyle = '#ff0000'; // Red
+  ctx.fillRect(0, 0, curbWidth, curbSegmentLength);
+  ctx.fillRect(
+    canvasWidth - curbWidth,
+    curbSegmentLength,
+    curbWidth,
+    curbSegmentLength
+  );
+  ctx.fillStyle = '#ffffff'; // White
+  ctx.fillRect(0, curbSegmentLength, curbWidth, curbSegmentLength);
+  ctx.fillRect(canvasWidth - curbWidth, 0, curbWidth, curbSegmentLength);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.anisotropy = webglRenderer.capabilities.getMaxAnisotropy();
+  texture.repeat.y = 1 / 1.0;
+  return texture;
+}
+
+function applyAlphaMaskShader(material: THREE.MeshStandardMaterial) {
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.u_cartDistance = { value: 0.0 };
+    shader.uniforms.u_trackLength = { value: 0.0 };
+    shader.uniforms.u_closed = { value: false };
+    shader.uniforms.u_useFade = { value: fadeEffectInput.value === 'dynamic' };
+    shader.uniforms.u_fadeInStart = {
+      value: parseFloat(fadeInStartInput.value),
+    };
+    shader.uniforms.u_fadeInEnd = { value: parseFloat(fadeInEndInput.value) };
+    shader.uniforms.u_fadeOutStart = {
+      value: parseFloat(fadeOutStartInput.value),
+    };
+    shader.uniforms.u_fadeOutEnd = { value: parseFloat(fadeOutEndInput.value) };
+
+    material.userData.shader = shader;
+
+    shader.vertexShader =
+      `
+          varying float vPathDistance;
+      ` + shader.vertexShader;
+
+    shader.vertexShader = shader.vertexShader.replace(
+      '#include <begin_vertex>',
+      `#include <begin_vertex>
+           vPathDistance = uv.y;`
+    );
+
+    shader.fragmentShader =
+      `
+          uniform float u_cartDistance;
+          uniform float u_trackLength;
+          uniform bool u_closed;
+          uniform bool u_useFade;
+          uniform float u_fadeInStart;
+          uniform float u_fadeInEnd;
+          uniform float u_fadeOutStart;
+          uniform float u_fadeOutEnd;
+          varying float vPathDistance;
+      ` + shader.fragmentShader;
+
+    shader.fragmentShader = shader.fragmentShader.replace(
+      '#include <dithering_fragment>',
+      `#include <dithering_fragment>
+
+
+      if (u_useFade) {
+        float distToCart = vPathDistance - u_cartDistance;
+        // Closed circuits: measure the shorter way around the seam
+        if (u_closed && u_trackLength > 0.0) {
+          distToCart = mod(distToCart + 0.5 * u_trackLength, u_trackLength) - 0.5 * u_trackLength;
+        }
+        float alphaBehind = smoothstep(u_fadeInStart, u_fadeInEnd, distToCart);
+        float alphaAhead = 1.0 - smoothstep(u_fadeOutStart, u_fadeOutEnd, distToCart);
+        gl_FragColor.a *= min(alphaBehind, alphaAhead);
+      }`
+    );
+  };
+}
+
+function createAllRoadMaterials() {
+  roadMaterials['default'] = new THREE.MeshStandardMaterial({
+    map: createDefaultDashedTexture(),
+  });
+  roadMaterials['solid'] = new THREE.MeshStandardMaterial({ color: 0x282828 });
+  roadMaterials['racing'] = new THREE.MeshStandardMaterial({
+    map: createRacingTexture(),
+  });
+
+  for (const key in roadMaterials) {
+    const mat = roadMaterials[key];
+    mat.setValues({
+      side: THREE.DoubleSide,
+      transparent: true,
+      depthWrite: false,
+      depthTest: true,
+      polygonOffset: true,
+      polygonOffsetFactor: -1.0,
+      polygonOffsetUnits: -1.0,
+    });
+    applyAlphaMaskShader(mat);
+  }
+}
+
+function toggleRoadMeshVisibility() {
+  const showRoad = roadToggle.checked;
+  if (roadMesh) roadMesh.visible = showRoad;
+  roadMeshSettings.style.display = showRoad ? 'flex' : 'none';
+  if (line) line.visible = !showRoad;
+}
+
+function rebuildCurveAndRoad() {
+  if (line) {
+    scene.remove(line);
+    line.geometry.dispose();
+  }
+  if (roadMesh) {
+    scene.remove(roadMesh);
+    roadMesh.geometry.dispose();
+  }
+  if (sCurveControlPoints.length < 2) return;
+
+  // This now also re-runs the full analysis
+  initializePathData();
+  computeTurnAngles();
+
+  // Create the colored line for toggling
+  const positions = new Float32Array(sampledPts.length * 3);
+  const colors = new Float32Array(sampledPts.length * 3);
+  const cA = new THREE.Color(0x800000),
+    cB = new THREE.Color(0x008000); // Default red to green
+  for (let i = 0; i < sampledPts.length; i++) {
+    const t = totalLen > 0 ? cumLen[i] / totalLen : 0;
+    const c = cA.clone().lerp(cB, t);
+    const p = sampledPts[i];
+    positions[i * 3 + 0] = p.x;
+    positions[i * 3 + 1] = p.y;
+    positions[i * 3 + 2] = p.z;
+    colors[i * 3 + 0] = c.r;
+    colors[i * 3 + 1] = c.g;
+    colors[i * 3 + 2] = c.b;
+  }
+  const lineGeom = new THREE.BufferGeometry();
+  lineGeom.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  lineGeom.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  line = new THREE.Line(lineGeom, lineMat);
+  scene.add(line);
+
+  // Apply progressive vertical offset to sampledPts to alleviate z-fighting
+  for (let i = 0; i < sampledPts.length; i++) {
+    sampledPts[i].y += rampHeightAtS(cumLen[i]);
+  }
+
+  // Build road mesh
+  const roadVertices: number[] = [];
+  const roadNormals: number[] = [];
+  const roadUvs: number[] = [];
+  const roadIndices: number[] = [];
+
+  const roadWidth = parseFloat(roadWidthInput.value) || 0.5;
+  for (let i = 0; i < sampledPts.length; i++) {
+    const p = sampledPts[i];
+    const tangent = tangentAtIndex(i);
+    const { side: binormal, up: normal } = bankedFrameAtIndex(i, tangent);
+
+    const v_left = p.clone().addScaledVector(binormal, -roadWidth / 2);
+    const v_right = p.clone().addScaledVector(binormal, roadWidth / 2);
+
+    roadVertices.push(v_left.x, v_left.y, v_left.z);
+    roadVertices.push(v_right.x, v_right.y, v_right.z);
+    roadNormals.push(
+      normal.x,
+      normal.y,
+      normal.z,
+      normal.x,
+      normal.y,
+      normal.z
+    );
+    roadUvs.push(0, cumLen[i], 1, cumLen[i]);
 
-const importJsonInput = document.getElementById(
-  'importJson'
-) as HTMLInputElement;
+    if (i < sampledPts.length - 1) {
+      const i0 = i * 2,
+        i1 = i0 + 1,
+        i2 = i0 + 2,
+        i3 = i0 + 3;
+      roadIndices.push(i0, i2, i1, i1, i2, i3);
+    }
+  }
 
-// Advanced Speed Profile UI
-const wPrevStartInput = document.getElementById(
-  'wPrevStart'
-) as HTMLInputElement;
-const wPrevEndInput = document.getElementById('wPrevEnd') as HTMLInputElement;
-const wNextHoldInput = document.getElementById('wNextHold') as HTMLInputElement;
-const wNextAccelInput = document.getElementById(
-  'wNextAccel'
-) as HTMLInputElement;
-const p0_20_Input = document.getElementById('p0_20') as HTMLInputElement;
-const p20_45_Input = document.getElementById('p20_45') as HTMLInputElement;
-const p45_90_Input = document.getElementById('p45_90') as HTMLInputElement;
-const p90_120_Input = document.getElementById('p90_120') as HTMLInputElement;
-const p120_150_Input = document.getElementById('p120_150') as HTMLInputElement;
-const p150_165_Input = document.getElementById('p150_165') as HTMLInputElement;
-const p165_180_Input = document.getElementById('p165_180') as HTMLInputElement;
+  const roadGeom = new THREE.BufferGeometry();
+  roadGeom.setAttribute(
+    'position',
+    new THREE.Float32BufferAttribute(roadVertices, 3)
+  );
+  roadGeom.setAttribute(
+    'normal',
+    new THREE.Float32BufferAttribute(roadNormals, 3)
+  );
+  roadGeom.setAttribute('uv', new THREE.Float32BufferAttribute(roadUvs, 2));
+  roadGeom.setIndex(roadIndices);
 
-// Speedometer UI
-const speedoProgress = document.getElementById(
-  'speedoProgress'
-) as unknown as SVGUseElement;
-const speedoValue = document.getElementById(
-  'speedoValue'
-) as unknown as SVGTextElement;
-const speedoTicks = document.getElementById(
-  'speedoTicks'
-) as unknown as SVGGElement;
-let speedoArcLength = 0;
+  const selectedMatKey = roadMaterialPresetInput.value;
+  const selectedMat = roadMaterials[selectedMatKey] || roadMaterials['default'];
+  roadMesh = new THREE.Mesh(roadGeom, selectedMat);
+  roadMesh.renderOrder = 10; // ensure road draws after opaque scene content
+  scene.add(roadMesh);
 
-/* ============================================================================
-   SECTION: GAME STATE (SCORE / HEARTS) + HUD UPDATE
-============================================================================ */
+  toggleRoadMeshVisibility();
 
-let playerScore = 0;
-let playerHearts = 3;
-let wasInsideTargetPrevFrame = false;
-let scoreAccumulatorSeconds = 0;
-let noDamageMode = false; // New: for debugging, prevent losing hearts/score
-let currentSpeedForHud = 0; // For debugging
-let isExtraHudVisible = false;
-let offTrackMin = parseFloat(offTrackMinInput?.value ?? '') || -0.1;
-let offTrackMax = parseFloat(offTrackMaxInput?.value ?? '') || 0.1;
-let fogRadiusMeters = parseFloat(fogRadiusInput?.value ?? '') || 30;
+  // Regenerate curve point markers to align with the new curve geometry
+  regenerateCurvePointMarkers();
 
-if (extraHudElement) {
-  extraHudElement.style.display = 'none';
+  rebuildSpeedProfile();
 }
 
-function flashDamageVignette() {
-  if (!hudBarElement) return;
-  hudBarElement.classList.add('damage');
-  setTimeout(() => hudBarElement.classList.remove('damage'), 350);
-}
+/* ============================================================================
+   SECTION: DIFFICULTY PRESETS
+============================================================================ */
 
-function refreshOffTrackThresholds() {
-  const minVal = parseFloat(offTrackMinInput?.value ?? '');
-  const maxVal = parseFloat(offTrackMaxInput?.value ?? '');
-  offTrackMin = Number.isFinite(minVal) ? minVal : -0.1;
-  offTrackMax = Number.isFinite(maxVal) ? maxVal : 0.1;
-  if (offTrackMin >= offTrackMax) {
-    offTrackMax = offTrackMin + 0.05;
-    if (offTrackMaxInput) {
-      offTrackMaxInput.value = offTrackMax.toFixed(2);
-    }
-  }
+type DifficultyId = 'easy' | 'normal' | 'hard' | 'expert';
+
+interface DifficultyPreset {
+  label: string;
+  targetWidth: number;
+  targetSmoothing: number;
+  gyroSensitivity: number;
+  leadDistance: number;
+  noDamage: boolean;
+  anglePercents: SpeedProfileConfig['anglePercents'];
+  speedMultiplier: number;
+  startingHearts: number;
 }
 
-function updateOffTrackOverlays(offset: number) {
-  if (!damageLeftOverlay || !damageRightOverlay) return;
-  const leftIntensity = offset < offTrackMin ? 1 : 0;
-  const rightIntensity = offset > offTrackMax ? 1 : 0;
-  damageLeftOverlay.style.opacity =
-    leftIntensity > 0 ? leftIntensity.toFixed(2) : '0';
-  damageRightOverlay.style.opacity =
-    rightIntensity > 0 ? rightIntensity.toFixed(2) : '0';
+const DIFFICULTY_PRESETS: Record<DifficultyId, DifficultyPreset> = {
+  easy: {
+    label: 'Easy',
+    targetWidth: 0.35,
+    targetSmoothing: 0.015,
+    gyroSensitivity: 1,
+    leadDistance: 0.5,
+    noDamage: false,
+    anglePercents: {
+      p0_20: 100,
+      p20_45: 85,
+      p45_90: 65,
+      p90_120: 50,
+      p120_150: 10,
+      p150_165: 5,
+      p165_180: 1,
+    },
+    speedMultiplier: 0.8,
+    startingHearts: 5,
+  },
+  normal: {
+    label: 'Normal',
+    targetWidth: 0.2,
+    targetSmoothing: 0.02,
+    gyroSensitivity: 1,
+    leadDistance: 0.25,
+    noDamage: false,
+    anglePercents: {
+      p0_20: 100,
+      p20_45: 90,
+      p45_90: 75,
+      p90_120: 60,
+      p120_150: 10,
+      p150_165: 5,
+      p165_180: 1,
+    },
+    speedMultiplier: 1,
+    startingHearts: 3,
+  },
+  hard: {
+    label: 'Hard',
+    targetWidth: 0.14,
+    targetSmoothing: 0.03,
+    gyroSensitivity: 0.9,
+    leadDistance: 0.2,
+    noDamage: false,
+    anglePercents: {
+      p0_20: 100,
+      p20_45: 95,
+      p45_90: 85,
+      p90_120: 70,
+      p120_150: 20,
+      p150_165: 10,
+      p165_180: 5,
+    },
+    speedMultiplier: 1.15,
+    startingHearts: 3,
+  },
+  expert: {
+    label: 'Expert',
+    targetWidth: 0.1,
+    targetSmoothing: 0.04,
+    gyroSensitivity: 0.8,
+    leadDistance: 0.15,
+    noDamage: false,
+    anglePercents: {
+      p0_20: 100,
+      p20_45: 100,
+      p45_90: 90,
+      p90_120: 80,
+      p120_150: 30,
+      p150_165: 15,
+      p165_180: 8,
+    },
+    speedMultiplier: 1.3,
+    startingHearts: 2,
+  },
+};
+
+const difficultyInput = document.getElementById(
+  'difficulty'
+) as HTMLSelectElement;
+const maxHeartsInput = document.getElementById('maxHearts') as HTMLInputElement;
+const anglePercentInputs: Record<
+  keyof SpeedProfileConfig['anglePercents'],
+  HTMLInputElement
+> = {
+  p0_20: p0_20_Input,
+  p20_45: p20_45_Input,
+  p45_90: p45_90_Input,
+  p90_120: p90_120_Input,
+  p120_150: p120_150_Input,
+  p150_165: p150_165_Input,
+  p165_180: p165_180_Input,
+};
+let isApplyingDifficulty = false;
+
+/* Presets go through the same inputs staff would edit by hand, so every
+   handler's clamping and side effects (speed profile rebuild, heart reset)
+   apply and the debug panel shows the result */
+function setInputAndNotify(input: HTMLInputElement | null, value: number) {
+  if (!input) return;
+  input.value = String(value);
+  input.dispatchEvent(new Event('input'));
 }
 
-function setFogRadiusMeters(value: number) {
-  fogRadiusMeters = THREE.MathUtils.clamp(
-    Number.isFinite(value) ? value : 30,
-    0,
-    100
-  );
-  if (fogRadiusInput) {
-    fogRadiusInput.value = fogRadiusMeters.toFixed(0);
-  }
-  if (fogRadiusValueLabel) {
-    fogRadiusValueLabel.textContent = `${Math.round(fogRadiusMeters)}m`;
+function applyDifficultyPreset(id: DifficultyId) {
+  const preset = DIFFICULTY_PRESETS[id];
+  isApplyingDifficulty = true;
+  setInputAndNotify(targetWidthInput, preset.targetWidth);
+  setInputAndNotify(targetSmoothingInput, preset.targetSmoothing);
+  setInputAndNotify(gyroSensitivityInput, preset.gyroSensitivity);
+  setInputAndNotify(leadDistanceInput, preset.leadDistance);
+  setInputAndNotify(maxHeartsInput, preset.startingHearts);
+  if (noDamageToggle) {
+    noDamageToggle.checked = preset.noDamage;
+    noDamageToggle.dispatchEvent(new Event('change'));
   }
+  // Set every percentage first so the profile is rebuilt only once
+  (
+    Object.keys(preset.anglePercents) as (keyof typeof preset.anglePercents)[]
+  ).forEach((key) => {
+    speedProfileConfig.anglePercents[key] = preset.anglePercents[key];
+    anglePercentInputs[key].value = String(preset.anglePercents[key]);
+  });
+  setInputAndNotify(speedMultiplierInput, preset.speedMultiplier);
+  isApplyingDifficulty = false;
+  if (difficultyInput) difficultyInput.value = id;
+  dbg(`Difficulty: ${preset.label}`);
 }
 
-function updateSceneFog() {
-  const enabled = fogToggle?.checked ?? false;
-  if (fogSettingsContainer) {
-    fogSettingsContainer.style.display = enabled ? 'flex' : 'none';
-  }
-  if (enabled && fogRadiusMeters > MIN_FOG_RADIUS) {
-    const density = 1 / Math.max(fogRadiusMeters, MIN_FOG_RADIUS);
-    const fogExp = scene.fog as THREE.FogExp2 | null;
-    if (!fogExp || !(fogExp as any).isFogExp2) {
-      scene.fog = new THREE.FogExp2(FOG_COLOR, density);
-    } else {
-      fogExp.color.set(FOG_COLOR);
-      fogExp.density = density;
-    }
-  } else {
-    scene.fog = null;
-  }
+if (difficultyInput) {
+  difficultyInput.innerHTML = '';
+  (Object.keys(DIFFICULTY_PRESETS) as DifficultyId[]).forEach((id) => {
+    difficultyInput.add(new Option(DIFFICULTY_PRESETS[id].label, id));
+  });
+  difficultyInput.add(new Option('Custom', 'custom'));
+  difficultyInput.value = 'normal';
+  difficultyInput.addEventListener('change', () => {
+    const id = difficultyInput.value;
+    if (id in DIFFICULTY_PRESETS) applyDifficultyPreset(id as DifficultyId);
+  });
 }
 
-function updateHudAndScoring(needleNormalized: number, deltaSeconds: number) {
-  // Apply smoothing to the target's center position
-  targetCenterNormalizedSmoothed +=
-    (targetCenterNormalized - targetCenterNormalizedSmoothed) *
-    targetSmoothingAlpha;
+// Hand-editing any bundled setting leaves the preset
+[
+  targetWidthInput,
+  targetSmoothingInput,
+  gyroSensitivityInput,
+  leadDistanceInput,
+  maxHeartsInput,
+  noDamageToggle,
+  speedMultiplierInput,
+  ...Object.values(anglePercentInputs),
+].forEach((input) => {
+  const markCustom = () => {
+    if (!isApplyingDifficulty && difficultyInput) {
+      difficultyInput.value = 'custom';
+    }
+  };
+  input?.addEventListener('input', markCustom);
+  input?.addEventListener('change', markCustom);
+});
 
-  const barWidthPx = hudBarElement.clientWidth;
-  const normalizedToPixels = (n: number) =>
-    (clampNumber(n, -1, 1) + 1) * 0.5 * barWidthPx;
-  const targetWidthPx = Math.max(
-    6,
-    barWidthPx * clampNumber(targetWidthNormalized, 0.02, 1)
-  );
-  const targetLeftPx =
-    normalizedToPixels(targetCenterNormalizedSmoothed) - targetWidthPx / 2;
-  const needleLeftPx = normalizedToPixels(needleNormalized) - 2;
-  hudNeedleElement.style.left = `${needleLeftPx}px`;
-  hudTargetElement.style.left = `${targetLeftPx}px`;
-  hudTargetElement.style.width = `${targetWidthPx}px`;
-  if (hudCenterlineElement) {
-    const centerlineLeftPx = normalizedToPixels(0) - 2;
-    hudCenterlineElement.style.left = `${centerlineLeftPx}px`;
-  }
-  const isOverlapping = !(
-    needleLeftPx + 4 < targetLeftPx ||
-    needleLeftPx > targetLeftPx + targetWidthPx
-  );
-  hudBarElement.style.boxShadow = isOverlapping
-    ? '0 0 12px rgba(46,204,113,0.8)'
-    : 'none';
-  hudBarElement.classList.toggle('ok', isOverlapping);
+/* ============================================================================
+   SECTION: GYRO RANGE CALIBRATION (CENTER / FULL LEFT / FULL RIGHT)
+============================================================================ */
 
-  // v7-style scoring: accumulate points over time while on target
-  if (isRideActive) {
-    scoreAccumulatorSeconds += deltaSeconds;
-    while (scoreAccumulatorSeconds >= 0.1) {
-      scoreAccumulatorSeconds -= 0.1;
-      if (isOverlapping) {
-        playerScore += 1;
-      }
+const GYRO_RANGE_STORAGE_KEY = 'gyroRangeCalibration.v1';
+const MIN_RANGE_DEGREES = 5; // smaller captures are treated as mistakes
+
+type RangeCalibrationStep = 'idle' | 'center' | 'left' | 'right';
+let rangeCalibrationStep: RangeCalibrationStep = 'idle';
+let pendingLeftDegrees = 0;
+
+const rangeCalibrationPromptElement = document.getElementById(
+  'rangeCalibrationPrompt'
+) as HTMLParagraphElement;
+const rangeCalibrationLiveElement = document.getElementById(
+  'rangeCalibrationLive'
+) as HTMLSpanElement;
+const rangeCalibrationCaptureButton = document.getElementById(
+  'rangeCalibrationCapture'
+) as HTMLButtonElement;
+const rangeCalibrationRestartButton = document.getElementById(
+  'rangeCalibrationRestart'
+) as HTMLButtonElement;
+const rangeCalibrationClearButton = document.getElementById(
+  'rangeCalibrationClear'
+) as HTMLButtonElement;
+
+function loadGyroRangeCalibration(): GyroRangeCalibration | null {
+  try {
+    const data = JSON.parse(
+      localStorage.getItem(GYRO_RANGE_STORAGE_KEY) ?? 'null'
+    );
+    if (
+      !isPlainObject(data) ||
+      !(Number(data.leftDegrees) >= MIN_RANGE_DEGREES) ||
+      !(Number(data.rightDegrees) >= MIN_RANGE_DEGREES)
+    ) {
+      return null;
     }
+    return {
+      leftDegrees: Number(data.leftDegrees),
+      rightDegrees: Number(data.rightDegrees),
+      savedAt: String(data.savedAt ?? ''),
+    };
+  } catch (err) {
+    dbg('Gyro range load error: ' + (err as any)?.message);
+    return null;
   }
+}
 
-  if (isRideActive && wasInsideTargetPrevFrame && !isOverlapping) {
-    if (!noDamageMode) {
-      // Only lose heart if not in no-damage mode
-      playerHearts = Math.max(0, playerHearts - 1);
-    }
-    heartsTextElement.textContent =
-      '❤'.repeat(playerHearts) + '♡'.repeat(3 - playerHearts);
-    flashDamageVignette();
-    if (playerHearts <= 0) {
-      isRideActive = false;
-      orbitControls.enabled = true;
-      tryAgainModalElement.style.display = 'grid';
+function saveGyroRangeCalibration(calibration: GyroRangeCalibration | null) {
+  gyroRangeCalibration = calibration;
+  try {
+    if (calibration) {
+      localStorage.setItem(GYRO_RANGE_STORAGE_KEY, JSON.stringify(calibration));
+    } else {
+      localStorage.removeItem(GYRO_RANGE_STORAGE_KEY);
     }
+  } catch (err) {
+    dbg('Gyro range save error: ' + (err as any)?.message);
   }
-  wasInsideTargetPrevFrame = isOverlapping;
-  scoreTextElement.textContent = String(playerScore);
-
-  // Update extra HUD
-  const camRot = rideCamera.rotation;
-  const r2d = THREE.MathUtils.radToDeg;
-  const rotStr = `x:${r2d(camRot.x).toFixed(1)} y:${r2d(camRot.y).toFixed(
-    1
-  )} z:${r2d(camRot.z).toFixed(1)}`;
-  const gyroStr = `α:${rawGyroAlpha.toFixed(1)} β:${rawGyroBeta.toFixed(
-    1
-  )} γ:${rawGyroGamma.toFixed(1)}`;
-  extraHudElement.innerHTML =
-    `<strong>Speed:</strong> ${currentSpeedForHud.toFixed(2)} m/s<br>` +
-    `<strong>Camera Rotation (xyz):</strong> ${rotStr}<br>` +
-    `<strong>Gyro Raw Rotation (xyz):</strong> ${gyroStr}<br>` +
-    `<strong>Camera Offset (m):</strong> ${cameraOffsetCurrent.toFixed(
-      2
-    )}<br>` +
-    `<strong>Needle (norm):</strong> ${needleNormalized.toFixed(3)}`;
 }
 
-/* ============================================================================
-   SECTION: UI WIRING (BUTTONS + INPUTS)
-============================================================================ */
-
-const durationInput = document.getElementById('duration') as HTMLInputElement;
-const loopCheckbox = document.getElementById('loop') as HTMLInputElement;
-
-let isConfigPanelVisible = false;
-function setConfigPanelVisible(visible: boolean) {
-  isConfigPanelVisible = visible;
-  debugConfigPanel.style.display = visible ? '' : 'none';
-  toggleConfigButton.textContent = visible ? 'Hide Config' : 'Show Config';
+/* Current roll as the wizard sees it: relative to the captured centre,
+   before dead zone and mapping */
+function rangeCalibrationRollDegrees() {
+  return rollRelativeDegreesSmoothed - rollDriftOffsetDegrees;
 }
 
-document.getElementById('stop')?.addEventListener('click', () => {
-  dbg('Button: Stop');
-  stopRide();
-  playerScore = 0;
-  scoreTextElement.textContent = String(playerScore);
-  playerHearts = 3;
-  heartsTextElement.textContent = '❤❤❤';
-});
-document.getElementById('reset')?.addEventListener('click', () => {
-  dbg('Button: Reset Camera');
-  stopRide();
-  resetCameraToPathStart();
-});
+function setRangeCalibrationStep(step: RangeCalibrationStep) {
+  rangeCalibrationStep = step;
+  updateRangeCalibrationUI();
+}
 
-const enableGyroButton = document.getElementById(
-  'enable-gyro'
-) as HTMLButtonElement;
-const centerGyroButton = document.getElementById(
-  'center-gyro'
-) as HTMLButtonElement;
-const gyroSensitivityInput = document.getElementById(
-  'gyro-sense'
-) as HTMLInputElement;
+function updateRangeCalibrationUI(message?: string) {
+  if (!rangeCalibrationPromptElement) return;
+  const prompts: Record<RangeCalibrationStep, string> = {
+    idle: gyroRangeCalibration
+      ? `Saved range: ${gyroRangeCalibration.leftDegrees.toFixed(0)}° left / ${gyroRangeCalibration.rightDegrees.toFixed(0)}° right.`
+      : 'No range saved; the steering profile lock angle is used.',
+    center: 'Step 1 of 3: hold your phone centred and tap Capture.',
+    left: 'Step 2 of 3: tilt as far left as is comfortable and tap Capture.',
+    right: 'Step 3 of 3: tilt as far right as is comfortable and tap Capture.',
+  };
+  rangeCalibrationPromptElement.textContent = message
+    ? `${message} ${prompts[rangeCalibrationStep]}`
+    : prompts[rangeCalibrationStep];
+  const isRunning = rangeCalibrationStep !== 'idle';
+  rangeCalibrationCaptureButton.style.display = isRunning ? '' : 'none';
+  rangeCalibrationCaptureButton.textContent = `Capture ${
+    rangeCalibrationStep === 'center' ? 'Center' : 'Full Tilt'
+  }`;
+  rangeCalibrationRestartButton.textContent = isRunning
+    ? 'Cancel'
+    : gyroRangeCalibration
+      ? 'Recalibrate Range'
+      : 'Calibrate Range';
+  rangeCalibrationClearButton.style.display =
+    !isRunning && gyroRangeCalibration ? '' : 'none';
+}
 
-enableGyroButton?.addEventListener('click', async () => {
-  if (!isGyroEnabled) {
-    dbg('Button: Enable Gyro');
-    const ok = await enableGyroscope();
-    if (!ok) {
-      alert(
-        'Gyro permission denied or not available. Use HTTPS/localhost and tap (iOS).'
-      );
+function captureRangeCalibrationStep() {
+  const roll = rangeCalibrationRollDegrees();
+  if (rangeCalibrationStep === 'center') {
+    centerGyroscopeHeading();
+    setRangeCalibrationStep('left');
+  } else if (rangeCalibrationStep === 'left') {
+    if (roll > -MIN_RANGE_DEGREES) {
+      updateRangeCalibrationUI('Tilt further left.');
       return;
     }
-    enableGyroButton.textContent = 'Disable Gyro';
-    await enterLandscapeFlow();
-  } else {
-    dbg('Button: Disable Gyro');
-    disableGyroscope();
-    enableGyroButton.textContent = 'Enable Gyro';
+    pendingLeftDegrees = -roll;
+    setRangeCalibrationStep('right');
+  } else if (rangeCalibrationStep === 'right') {
+    if (roll < MIN_RANGE_DEGREES) {
+      updateRangeCalibrationUI('Tilt further right.');
+      return;
+    }
+    saveGyroRangeCalibration({
+      leftDegrees: pendingLeftDegrees,
+      rightDegrees: roll,
+      savedAt: new Date().toISOString(),
+    });
+    dbg(
+      `Gyro range saved: L ${pendingLeftDegrees.toFixed(1)}° R ${roll.toFixed(
+        1
+      )}°`
+    );
+    // The player is still tilted right; come back to centre for the ride
+    setRangeCalibrationStep('idle');
+    updateRangeCalibrationUI('Saved. Return to centre and tap Calibrate Gyro.');
   }
-});
-centerGyroButton?.addEventListener('click', () => {
-  dbg('Button: Recalibrate Gyro');
-  stopRide();
-  if (calibrationModalElement) {
-    calibrationModalElement.style.display = 'grid';
+}
+
+/* Called every frame: live roll readout and HUD needle above the modal */
+function updateRangeCalibrationWizard() {
+  const isVisible = calibrationModalElement?.style.display === 'grid';
+  const isRunning = isVisible && rangeCalibrationStep !== 'idle';
+  document.body.classList.toggle('calibrating-range', isRunning);
+  if (!isVisible || !rangeCalibrationLiveElement) return;
+  const text = `${rangeCalibrationRollDegrees().toFixed(1)}°`;
+  if (rangeCalibrationLiveElement.textContent !== text) {
+    rangeCalibrationLiveElement.textContent = text;
   }
+}
+
+rangeCalibrationCaptureButton?.addEventListener('click', () => {
+  dbg(`Button: Capture Range (${rangeCalibrationStep})`);
+  captureRangeCalibrationStep();
 });
-gyroSensitivityInput?.addEventListener('input', () => {
-  const value = parseFloat(gyroSensitivityInput.value);
-  yawSensitivity = Number.isFinite(value) ? value : 1.0;
-  dbg(`Input: Gyro Sensitivity = ${yawSensitivity}`);
+rangeCalibrationRestartButton?.addEventListener('click', () => {
+  dbg('Button: Calibrate Range');
+  setRangeCalibrationStep(rangeCalibrationStep === 'idle' ? 'center' : 'idle');
+});
+rangeCalibrationClearButton?.addEventListener('click', () => {
+  dbg('Button: Clear Range');
+  saveGyroRangeCalibration(null);
+  updateRangeCalibrationUI();
 });
 
-const targetWidthInput = document.getElementById(
-  'targetWidth'
-) as HTMLInputElement;
-targetWidthInput?.addEventListener('input', () => {
-  const value = parseFloat(targetWidthInput.value);
-  if (Number.isFinite(value)) {
-    targetWidthNormalized = clampNumber(value, 0.02, 1);
-    dbg(`Input: Target Width = ${targetWidthNormalized}`);
+// Returning players keep their saved range; new ones start the wizard
+gyroRangeCalibration = loadGyroRangeCalibration();
+setRangeCalibrationStep(gyroRangeCalibration ? 'idle' : 'center');
+
+/* ============================================================================
+   SECTION: TRACK FILE SCHEMA (VERSIONING + VALIDATION)
+============================================================================ */
+
+// Bump when the track format changes and add a step to migrateTrackData.
+const TRACK_SCHEMA_VERSION = 1;
+// Speed used to pad segmentSpeeds when migrating legacy (unversioned) files
+const LEGACY_DEFAULT_SEGMENT_SPEED = 10;
+
+interface TrackPoint {
+  x: number;
+  y?: number; // elevation (m)
+  z: number;
+  bank?: number; // roll (degrees), positive = right edge down
+}
+
+interface TrackFile {
+  version: number;
+  name: string;
+  date: string;
+  points: TrackPoint[];
+  segmentSpeeds: number[];
+  closed?: boolean; // last point joins back to the first; adds a seam segment
+  // Fields added by later versions are kept but not interpreted here
+  [key: string]: unknown;
+}
+
+interface TrackIssue {
+  path: string; // JSON path of the offending value, e.g. $.points[3].x
+  message: string;
+}
+
+class TrackValidationError extends Error {
+  issues: TrackIssue[];
+  constructor(issues: TrackIssue[], subject = 'Track file') {
+    super(
+      `${subject} has ${issues.length} problem${issues.length === 1 ? '' : 's'}`
+    );
+    this.name = 'TrackValidationError';
+    this.issues = issues;
   }
-});
-targetSmoothingInput?.addEventListener('input', () => {
-  const value = parseFloat(targetSmoothingInput.value);
-  if (Number.isFinite(value)) {
-    targetSmoothingAlpha = clampNumber(value, 0, 1);
-    dbg(`Input: Target Smoothing = ${targetSmoothingAlpha}`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/* Upgrade older track files to the current schema (returns a copy) */
+function migrateTrackData(raw: unknown): unknown {
+  if (!isPlainObject(raw)) return raw;
+  const data: Record<string, unknown> = { ...raw };
+
+  // v0: unversioned exports from the path editor. Name/date were optional and
+  // segmentSpeeds was padded with 10 m/s or truncated to fit the points.
+  if (data.version === undefined) {
+    if (data.name === undefined) data.name = 'Untitled';
+    if (data.date === undefined) data.date = '';
+    if (Array.isArray(data.points)) {
+      const need = Math.max(0, data.points.length - 1);
+      const speeds = Array.isArray(data.segmentSpeeds)
+        ? data.segmentSpeeds.slice(0, need)
+        : [];
+      while (speeds.length < need) speeds.push(LEGACY_DEFAULT_SEGMENT_SPEED);
+      data.segmentSpeeds = speeds;
+    }
+    data.version = 1;
+    dbg('Migrated unversioned track file to schema v1');
   }
-});
 
-calibrateGyroButton?.addEventListener('click', () => {
-  dbg('Button: Calibrate Gyro');
-  centerGyroscopeHeading();
-  placeCameraAtPathT(rideProgressT);
-});
+  return data;
+}
 
-calibrationStartButton?.addEventListener('click', () => {
-  dbg('Button: Calibration Start Ride');
-  if (calibrationModalElement) {
-    calibrationModalElement.style.display = 'none';
+function checkFiniteNumber(
+  issues: TrackIssue[],
+  path: string,
+  value: unknown,
+  required: boolean
+): value is number {
+  if (value === undefined) {
+    if (required) issues.push({ path, message: 'is required' });
+    return false;
   }
-  const overlay = document.getElementById('countdownOverlay') as HTMLDivElement;
-  if (!overlay) {
-    startRide(!!loopCheckbox.checked);
-    return;
+  if (typeof value !== 'number') {
+    issues.push({ path, message: `must be a number, got ${typeof value}` });
+    return false;
   }
-  let count = 3;
-  overlay.textContent = String(count);
-  overlay.style.display = 'grid';
-  const interval = setInterval(() => {
-    count -= 1;
-    if (count <= 0) {
-      clearInterval(interval);
-      overlay.style.display = 'none';
-      startRide(!!loopCheckbox.checked);
-    } else {
-      overlay.textContent = String(count);
-    }
-  }, 1000);
-});
+  if (!Number.isFinite(value)) {
+    issues.push({ path, message: `must be a finite number, got ${value}` });
+    return false;
+  }
+  return true;
+}
 
-successRestartButton?.addEventListener('click', () => {
-  dbg('Button: Restart (from success modal)');
-  if (successModalElement) {
-    successModalElement.style.display = 'none';
+/* Collect every schema problem in a (migrated) track file */
+function validateTrackData(data: unknown): TrackIssue[] {
+  const issues: TrackIssue[] = [];
+  if (!isPlainObject(data)) {
+    issues.push({ path: '$', message: 'must be a JSON object' });
+    return issues;
   }
-  stopRide();
-  enterLandscapeFlow();
-});
 
-toggleExtraHudButton?.addEventListener('click', () => {
-  isExtraHudVisible = !isExtraHudVisible;
-  if (extraHudElement) {
-    extraHudElement.style.display = isExtraHudVisible ? '' : 'none';
+  const { version } = data;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    issues.push({ path: '$.version', message: 'must be an integer' });
+  } else if (version < 1 || version > TRACK_SCHEMA_VERSION) {
+    issues.push({
+      path: '$.version',
+      message: `unsupported version ${version} (this app reads up to ${TRACK_SCHEMA_VERSION})`,
+    });
   }
-  if (toggleExtraHudButton) {
-    toggleExtraHudButton.textContent = isExtraHudVisible
-      ? 'Hide Extra HUD'
-      : 'Show Extra HUD';
+
+  if (typeof data.name !== 'string') {
+    issues.push({ path: '$.name', message: 'must be a string' });
+  }
+  if (typeof data.date !== 'string') {
+    issues.push({ path: '$.date', message: 'must be a string' });
   }
-});
 
-cameraOffsetMinInput?.addEventListener('input', () => {
-  const value = parseFloat(cameraOffsetMinInput.value);
-  if (Number.isFinite(value)) {
-    cameraOffsetMin = value;
-    dbg(`Input: Camera Offset Min = ${cameraOffsetMin}`);
+  if (data.closed !== undefined && typeof data.closed !== 'boolean') {
+    issues.push({ path: '$.closed', message: 'must be true or false' });
   }
-});
+  const closed = data.closed === true;
 
-cameraOffsetMaxInput?.addEventListener('input', () => {
-  const value = parseFloat(cameraOffsetMaxInput.value);
-  if (Number.isFinite(value)) {
-    cameraOffsetMax = value;
-    dbg(`Input: Camera Offset Max = ${cameraOffsetMax}`);
+  const points = data.points;
+  let pointCount = 0;
+  if (!Array.isArray(points)) {
+    issues.push({ path: '$.points', message: 'must be an array' });
+  } else {
+    pointCount = points.length;
+    const minPoints = closed ? 3 : 2;
+    if (points.length < minPoints) {
+      issues.push({
+        path: '$.points',
+        message: `needs at least ${minPoints} points, got ${points.length}`,
+      });
+    }
+    // Whether each point's x and z passed, so duplicates only compare those
+    const hasXZ: boolean[] = [];
+    points.forEach((p, i) => {
+      const path = `$.points[${i}]`;
+      hasXZ[i] = false;
+      if (!isPlainObject(p)) {
+        issues.push({ path, message: 'must be an object with x and z' });
+        return;
+      }
+      const hasX = checkFiniteNumber(issues, `${path}.x`, p.x, true);
+      const hasZ = checkFiniteNumber(issues, `${path}.z`, p.z, true);
+      hasXZ[i] = hasX && hasZ;
+      checkFiniteNumber(issues, `${path}.y`, p.y, false);
+      if (checkFiniteNumber(issues, `${path}.bank`, p.bank, false)) {
+        if (Math.abs(p.bank as number) > 180) {
+          issues.push({
+            path: `${path}.bank`,
+            message: 'must be between -180 and 180 degrees',
+          });
+        }
+      }
+      const prev = i > 0 ? points[i - 1] : null;
+      if (hasXZ[i] && i > 0 && hasXZ[i - 1] && isPlainObject(prev)) {
+        const dx = (p.x as number) - (prev.x as number);
+        const dy = finiteOr(p.y, 0) - finiteOr(prev.y, 0);
+        const dz = (p.z as number) - (prev.z as number);
+        if (Math.hypot(dx, dy, dz) < 1e-6) {
+          issues.push({ path, message: `duplicates points[${i - 1}]` });
+        }
+      }
+    });
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (
+      closed &&
+      points.length > 2 &&
+      isPlainObject(first) &&
+      isPlainObject(last)
+    ) {
+      const d = Math.hypot(
+        finiteOr(last.x, NaN) - finiteOr(first.x, NaN),
+        finiteOr(last.y, 0) - finiteOr(first.y, 0),
+        finiteOr(last.z, NaN) - finiteOr(first.z, NaN)
+      );
+      if (d < 1e-6) {
+        issues.push({
+          path: `$.points[${points.length - 1}]`,
+          message:
+            'duplicates points[0]; closed tracks join the ends automatically',
+        });
+      }
+    }
   }
-});
 
-const noDamageToggle = document.getElementById(
-  'noDamageToggle'
-) as HTMLInputElement;
-noDamageToggle?.addEventListener('change', () => {
-  noDamageMode = noDamageToggle.checked;
-  dbg(`Toggle: No Damage = ${noDamageMode}`);
-});
+  const speeds = data.segmentSpeeds;
+  if (!Array.isArray(speeds)) {
+    issues.push({ path: '$.segmentSpeeds', message: 'must be an array' });
+  } else {
+    const need = closed ? pointCount : Math.max(0, pointCount - 1);
+    if (Array.isArray(points) && speeds.length !== need) {
+      issues.push({
+        path: '$.segmentSpeeds',
+        message: `must have one entry per segment (${need}), got ${speeds.length}`,
+      });
+    }
+    speeds.forEach((v, i) => {
+      const path = `$.segmentSpeeds[${i}]`;
+      if (checkFiniteNumber(issues, path, v, true) && v <= 0) {
+        issues.push({ path, message: `must be greater than 0, got ${v}` });
+      }
+    });
+  }
 
-const toggleCurvePointMarkersButton = document.getElementById(
-  'toggleCurvePointMarkers'
-) as HTMLButtonElement;
-let curvePointMarkersVisible = true; // Visible by default
-curvePointMarkersGroup.visible = curvePointMarkersVisible;
-toggleCurvePointMarkersButton?.addEventListener('click', () => {
-  curvePointMarkersVisible = !curvePointMarkersVisible;
-  curvePointMarkersGroup.visible = curvePointMarkersVisible;
-  dbg(`Toggle: Curve Point Markers = ${curvePointMarkersVisible}`);
-  toggleCurvePointMarkersButton.textContent = curvePointMarkersVisible
-    ? 'Hide Curve Point Markers'
-    : 'Show Curve Point Markers';
-});
+  return issues;
+}
 
-const toggleCartButton = document.getElementById(
-  'toggleCart'
-) as HTMLButtonElement;
-const toggleLeadMarkerButton = document.getElementById(
-  'toggleLeadMarker'
-) as HTMLButtonElement;
+/* Parse, migrate and validate track JSON text; throws TrackValidationError */
+function parseTrackFile(text: string): TrackFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new TrackValidationError([
+      { path: '$', message: 'not valid JSON: ' + (err as Error).message },
+    ]);
+  }
+  const data = migrateTrackData(raw);
+  const issues = validateTrackData(data);
+  if (issues.length) throw new TrackValidationError(issues);
+  return data as TrackFile;
+}
 
-const toggleGridButton = document.getElementById(
-  'toggleGrid'
-) as HTMLButtonElement;
-toggleGridButton.textContent = gridHelper.visible ? 'Hide Grid' : 'Show Grid';
+/* Snapshot the current track state in the format parseTrackFile reads */
+function serializeTrackFile(): TrackFile {
+  const track: TrackFile = {
+    version: TRACK_SCHEMA_VERSION,
+    name: trackName || 'Untitled',
+    date: trackDate,
+    points: sCurveControlPoints.map((p, i) => {
+      const point: TrackPoint = { x: p.x, z: p.z };
+      if (p.y !== 0) point.y = p.y;
+      if (bankAtPoint[i]) point.bank = bankAtPoint[i];
+      return point;
+    }),
+    segmentSpeeds: segSpeeds.slice(0, segmentCount()),
+  };
+  if (isTrackClosed) track.closed = true;
+  return track;
+}
 
-let cartVisible = false;
-toggleCartButton.textContent = cartVisible ? 'Hide Cart' : 'Show Cart';
-toggleCartButton?.addEventListener('click', () => {
-  cartVisible = !cartVisible;
-  cart.visible = cartVisible;
-  dbg(`Toggle: Cart = ${cartVisible}`);
-  toggleCartButton.textContent = cartVisible ? 'Hide Cart' : 'Show Cart';
-});
+/* Error panel for rejected imports; other file types pass their own title */
+function showTrackErrorPanel(
+  source: string,
+  err: unknown,
+  title = 'Track import failed'
+) {
+  const issues =
+    err instanceof TrackValidationError
+      ? err.issues
+      : [{ path: '$', message: (err as Error)?.message || String(err) }];
+  if (!trackErrorModalElement || !trackErrorListElement) {
+    alert(`${title}: ` + issues.map((i) => i.message).join('\n'));
+    return;
+  }
+  if (trackErrorTitleElement) trackErrorTitleElement.textContent = title;
+  if (trackErrorSourceElement) trackErrorSourceElement.textContent = source;
+  trackErrorListElement.innerHTML = '';
+  for (const issue of issues) {
+    const li = document.createElement('li');
+    const code = document.createElement('code');
+    code.textContent = issue.path;
+    li.append(code, ' ' + issue.message);
+    trackErrorListElement.appendChild(li);
+  }
+  trackErrorModalElement.style.display = 'grid';
+}
 
-let leadMarkerVisible = false;
-toggleLeadMarkerButton.textContent = leadMarkerVisible
-  ? 'Hide Lead Marker'
-  : 'Show Lead Marker';
-toggleLeadMarkerButton?.addEventListener('click', () => {
-  leadMarkerVisible = !leadMarkerVisible;
-  leadMarkerMesh.visible = leadMarkerVisible;
-  dbg(`Toggle: Lead Marker = ${leadMarkerVisible}`);
-  toggleLeadMarkerButton.textContent = leadMarkerVisible
-    ? 'Hide Lead Marker'
-    : 'Show Lead Marker';
+trackErrorCloseButton?.addEventListener('click', () => {
+  trackErrorModalElement.style.display = 'none';
 });
 
-toggleGridButton?.addEventListener('click', () => {
-  gridHelper.visible = !gridHelper.visible;
-  toggleGridButton.textContent = gridHelper.visible ? 'Hide Grid' : 'Show Grid';
-});
+async function loadPathFromJSON(fileOrUrl: File | string) {
+  const source = typeof fileOrUrl === 'string' ? fileOrUrl : fileOrUrl.name;
+  try {
+    let text: string;
+    if (typeof fileOrUrl === 'string') {
+      const response = await fetch(fileOrUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch path: ${response.statusText}`);
+      }
+      text = await response.text();
+    } else {
+      text = await fileOrUrl.text();
+    }
 
-function setupSpeedometer() {
-  const arc = document.getElementById('speedoArc') as unknown as SVGPathElement;
-  if (!arc) return;
-  speedoArcLength = arc.getTotalLength();
-  if (speedoProgress) {
-    speedoProgress.style.strokeDasharray = String(speedoArcLength);
-    speedoProgress.style.strokeDashoffset = String(speedoArcLength);
-  }
+    const data = parseTrackFile(text);
 
-  // Generate ticks
-  const numTicks = 10; // e.g., 0, 20, 40... 180
-  const tickLength = 10;
-  const tickInnerRadius = 80 - 12; // arc radius - stroke width
+    // Update UI with name and date
+    trackName = data.name;
+    trackDate = data.date;
+    if (pathNameSpan) pathNameSpan.textContent = data.name || '-';
+    if (pathDateSpan) pathDateSpan.textContent = data.date || '-';
 
-  for (let i = 0; i < numTicks; i++) {
-    const progress = i / (numTicks - 1);
-    // Angle from -180 (left) to 0 (right) in degrees for a semicircle starting from the left
-    const angleDeg = -180 + progress * 180;
-    const angleRad = angleDeg * (Math.PI / 180);
+    // Update path data
+    sCurveControlPoints.length = 0;
+    isTrackClosed = data.closed === true;
+    // y (elevation) and bank (degrees) are optional; flat tracks omit them
+    const newPts = data.points.map(
+      (p) => new THREE.Vector3(p.x, p.y ?? 0, p.z)
+    );
+    sCurveControlPoints.push(...newPts);
+    bankAtPoint = data.points.map((p) => p.bank ?? 0);
+    segSpeeds = data.segmentSpeeds.slice();
 
-    const x1 = 100 + Math.cos(angleRad) * tickInnerRadius;
-    const y1 = 100 + Math.sin(angleRad) * tickInnerRadius;
-    const x2 = 100 + Math.cos(angleRad) * (tickInnerRadius - tickLength);
-    const y2 = 100 + Math.sin(angleRad) * (tickInnerRadius - tickLength);
+    // Rebuild the entire curve and road mesh from the new data
+    rebuildCurveAndRoad();
+    renderSegmentSpeedTable();
 
-    const line = document.createElementNS('http://www.w3.org/2000/svg', 'line');
-    line.setAttribute('x1', String(x1));
-    line.setAttribute('y1', String(y1));
-    line.setAttribute('x2', String(x2));
-    line.setAttribute('y2', String(y2));
-    if (speedoTicks) {
-      speedoTicks.appendChild(line);
+    // Reset the camera to the start of the NEWLY loaded path
+    resetCameraToPathStart();
+
+    currentLap = 1;
+    updateLapHud();
+
+    dbg(
+      `Loaded ${isTrackClosed ? 'closed' : 'open'} path v${data.version} with ${sCurveControlPoints.length} points.`
+    );
+  } catch (err: any) {
+    showTrackErrorPanel(source, err);
+    dbg('Path import failed: ' + (err?.message || 'Invalid JSON'));
+    if (err instanceof TrackValidationError) {
+      err.issues.forEach((i) => dbg(`  ${i.path}: ${i.message}`));
     }
   }
 }
 
-tensionInput.oninput = () => {
-  tension = parseFloat(tensionInput.value);
-  tensionVal.textContent = tension.toFixed(2);
-  rebuildCurveAndRoad();
-};
+/* ============================================================================
+   SECTION: TRACK EDITOR (DRAG / INSERT / DELETE CONTROL POINTS)
+============================================================================ */
 
-resScaleInput.onchange = () => {
-  rebuildCurveAndRoad();
-};
-roadToggle.onchange = () => {
-  toggleRoadMeshVisibility();
-};
-roadWidthInput.onchange = () => {
-  rebuildCurveAndRoad();
-};
-heightScaleInput.onchange = () => {
-  rebuildCurveAndRoad();
-};
-roadMaterialPresetInput.onchange = () => {
-  if (roadMesh) {
-    roadMesh.material =
-      roadMaterials[roadMaterialPresetInput.value] || roadMaterials['default'];
+let isEditMode = false;
+let isDraggingControlPoint = false;
+let dragPointIndex = -1;
+let isEditorRebuildPending = false;
+const editorRaycaster = new THREE.Raycaster();
+const editorPointer = new THREE.Vector2();
+const editorDragPlane = new THREE.Plane();
+const editorDragHit = new THREE.Vector3();
+
+function setEditMode(enabled: boolean) {
+  isEditMode = enabled;
+  if (editModeToggle) editModeToggle.checked = enabled;
+  if (enabled) {
+    stopRide();
+    // Markers are the editing handles, so force them on
+    curvePointMarkersGroup.visible = true;
   }
+  webglRenderer.domElement.style.cursor = enabled ? 'crosshair' : '';
+  dbg(`Editor: edit mode ${enabled ? 'on' : 'off'}`);
+}
+
+function minTrackPoints() {
+  return isTrackClosed ? 3 : 2;
+}
+
+/* Coalesce rebuilds to one per frame while dragging */
+function scheduleEditorRebuild() {
+  if (isEditorRebuildPending) return;
+  isEditorRebuildPending = true;
+  requestAnimationFrame(() => {
+    isEditorRebuildPending = false;
+    rebuildCurveAndRoad();
+  });
+}
+
+function applyTrackEdit() {
   rebuildCurveAndRoad();
-};
-offTrackMinInput?.addEventListener('input', () => {
-  refreshOffTrackThresholds();
-  updateOffTrackOverlays(cameraOffsetCurrent);
-});
-offTrackMaxInput?.addEventListener('input', () => {
-  refreshOffTrackThresholds();
-  updateOffTrackOverlays(cameraOffsetCurrent);
-});
-refreshOffTrackThresholds();
-updateOffTrackOverlays(0);
-fogToggle?.addEventListener('change', () => {
-  updateSceneFog();
-});
-fogRadiusInput?.addEventListener('input', () => {
-  const parsed = parseFloat(fogRadiusInput.value);
-  setFogRadiusMeters(parsed);
-  updateSceneFog();
-});
-setFogRadiusMeters(fogRadiusMeters);
-updateSceneFog();
+  renderSegmentSpeedTable();
+}
 
-// const textureLoader = new THREE.TextureLoader();
-// function applyTexture(url: string) {
-//   textureLoader.load(url, (tex: THREE.Texture) => {
-//     tex.colorSpace = THREE.SRGBColorSpace;
-//     tex.wrapS = tex.wrapT = THREE.RepeatWrapping;
-//     tex.anisotropy = webglRenderer.capabilities.getMaxAnisotropy();
-//     groundMat.map = tex; groundMat.color.set(0xffffff); groundMat.needsUpdate = true;
-//   });
-// }
-// groundTexInput.onchange = () => {
-//   const file = groundTexInput.files?.[0]; if (!file) return;
-//   const url = URL.createObjectURL(file);
-//   applyTexture(url);
-// };
-// btnClearTex.onclick = () => {
-//   groundMat.map = null;
-//   groundMat.color.set(DEFAULT_GROUND_COLOR);
-//   groundMat.needsUpdate = true;
-// };
+function setEditorPointerFromEvent(e: PointerEvent | MouseEvent) {
+  const rect = webglRenderer.domElement.getBoundingClientRect();
+  editorPointer.set(
+    ((e.clientX - rect.left) / rect.width) * 2 - 1,
+    -((e.clientY - rect.top) / rect.height) * 2 + 1
+  );
+  editorRaycaster.setFromCamera(editorPointer, rideCamera);
+}
 
-function updateFadeSettingsVisibility() {
-  const show = fadeEffectInput.value === 'dynamic';
-  fadeEffectSettings.style.display = show ? 'flex' : 'none';
+function pickControlPointIndex(): number {
+  const spheres = curvePointMarkersGroup.children.filter(
+    (o) => o.userData.pointIndex !== undefined
+  );
+  const hit = editorRaycaster.intersectObjects(spheres, false)[0];
+  return hit ? (hit.object.userData.pointIndex as number) : -1;
 }
 
-function updateFadeUniforms() {
-  for (const key in roadMaterials) {
-    const mat = roadMaterials[key];
-    if (mat.userData.shader) {
-      mat.userData.shader.uniforms.u_fadeInStart.value = parseFloat(
-        fadeInStartInput.value
-      );
-      mat.userData.shader.uniforms.u_fadeInEnd.value = parseFloat(
-        fadeInEndInput.value
-      );
-      mat.userData.shader.uniforms.u_fadeOutStart.value = parseFloat(
-        fadeOutStartInput.value
-      );
-      mat.userData.shader.uniforms.u_fadeOutEnd.value = parseFloat(
-        fadeOutEndInput.value
-      );
+/* Nearest sampled point index to the clicked spot on the road or line */
+function pickTrackSampleIndex(): number {
+  const target = roadMesh?.visible ? roadMesh : line;
+  if (!target) return -1;
+  editorRaycaster.params.Line = { threshold: 0.25 };
+  const hit = editorRaycaster.intersectObject(target, false)[0];
+  if (!hit) return -1;
+  let bestI = -1,
+    bestD = Infinity;
+  for (let i = 0; i < sampledPts.length; i++) {
+    const d = sampledPts[i].distanceToSquared(hit.point);
+    if (d < bestD) {
+      bestD = d;
+      bestI = i;
     }
   }
+  return bestI;
 }
-fadeEffectInput.onchange = () => {
-  updateFadeSettingsVisibility();
-  rebuildCurveAndRoad();
-};
-fadeInStartInput.oninput = updateFadeUniforms;
-fadeInEndInput.oninput = updateFadeUniforms;
-fadeOutStartInput.oninput = updateFadeUniforms;
-fadeOutEndInput.oninput = updateFadeUniforms;
 
-function updateHdrExposureFromUI() {
-  if (!hdrExposureInput) return;
-  const exposure = parseFloat(hdrExposureInput.value) || 1;
-  if (hdrExposureVal) {
-    hdrExposureVal.textContent = exposure.toFixed(2);
+function insertControlPointAtSample(sampleIdx: number) {
+  const s = cumLen[sampleIdx];
+  // Segment containing s (the seam segment on closed circuits)
+  let seg = 0;
+  for (let i = 0; i < sAtPoint.length; i++) {
+    if (sAtPoint[i] <= s) seg = i;
   }
-  webglRenderer.toneMappingExposure = exposure;
+  if (!isTrackClosed) seg = Math.min(seg, sCurveControlPoints.length - 2);
+  // sampledPts carry the anti-z-fighting ramp; strip it back off
+  const position = sampledPts[sampleIdx].clone();
+  position.y -= rampHeightAtS(cumLen[sampleIdx]);
+
+  sCurveControlPoints.splice(seg + 1, 0, position);
+  bankAtPoint.splice(seg + 1, 0, bankAtS(s));
+  segSpeeds.splice(seg + 1, 0, segSpeeds[seg] ?? 10);
+  dbg(`Editor: inserted point ${seg + 1}`);
+  applyTrackEdit();
 }
 
-function updateHdrBackgroundFromUI() {
-  if (!hdrToggle?.checked) return;
-  if (!hdrBackgroundToggle) return;
-  if (hdrBackgroundToggle.checked) {
-    if (hdrBackgroundTexture) {
-      scene.background = hdrBackgroundTexture;
-      webglRenderer.setClearColor(HDR_CLEAR_COLOR, 1);
-    } else {
-      ensureEnvironmentMapLoaded()
-        .then(() => {
-          if (
-            hdrToggle?.checked &&
-            hdrBackgroundToggle.checked &&
-            hdrBackgroundTexture
-          ) {
-            scene.background = hdrBackgroundTexture;
-            webglRenderer.setClearColor(HDR_CLEAR_COLOR, 1);
-          }
-        })
-        .catch(() => {});
-    }
+function deleteControlPoint(index: number) {
+  const n = sCurveControlPoints.length;
+  if (n <= minTrackPoints()) {
+    dbg(`Editor: a track needs at least ${minTrackPoints()} points`);
+    return;
+  }
+  if (isTrackClosed || (index > 0 && index < n - 1)) {
+    // The segments either side merge, keeping the slower speed
+    const prevSeg = (index - 1 + n) % n;
+    segSpeeds[prevSeg] = Math.min(segSpeeds[prevSeg], segSpeeds[index]);
+    segSpeeds.splice(index, 1);
+  } else if (index === 0) {
+    segSpeeds.shift();
   } else {
-    scene.background = null;
-    webglRenderer.setClearColor(HDR_CLEAR_COLOR, 1);
+    segSpeeds.pop();
   }
+  sCurveControlPoints.splice(index, 1);
+  bankAtPoint.splice(index, 1);
+  dbg(`Editor: deleted point ${index}`);
+  applyTrackEdit();
 }
 
-function setHdrEnabledFromUI(enabled: boolean) {
-  if (hdrSettings) {
-    hdrSettings.style.display = enabled ? 'flex' : 'none';
-  }
-
-  if (!enabled) {
-    scene.environment = null;
-    scene.background = null;
-    webglRenderer.setClearColor(DEFAULT_CLEAR_COLOR, 1);
+function setTrackClosed(closed: boolean) {
+  if (closed === isTrackClosed) return;
+  if (closed && sCurveControlPoints.length < 3) {
+    if (closedTrackToggle) closedTrackToggle.checked = false;
+    dbg('Editor: a closed circuit needs at least 3 points');
     return;
   }
+  isTrackClosed = closed;
+  if (closed) {
+    segSpeeds.push(segSpeeds[segSpeeds.length - 1] ?? 10); // seam segment
+  } else {
+    segSpeeds.length = sCurveControlPoints.length - 1;
+  }
+  dbg(`Editor: closed = ${closed}`);
+  applyTrackEdit();
+  updateLapHud();
+}
 
-  ensureEnvironmentMapLoaded()
-    .then(() => {
-      if (!hdrEnvironmentTexture) return;
-      scene.environment = hdrEnvironmentTexture;
-      updateHdrExposureFromUI();
-      updateHdrBackgroundFromUI();
-    })
-    .catch((error) => {
-      const message = (error as Error)?.message ?? String(error);
-      dbg('Failed to load envmap.hdr: ' + message);
-      if (hdrToggle) hdrToggle.checked = false;
-      setHdrEnabledFromUI(false);
+function renderSegmentSpeedTable() {
+  if (closedTrackToggle) closedTrackToggle.checked = isTrackClosed;
+  if (!segSpeedTableBody) return;
+  segSpeedTableBody.innerHTML = '';
+  const n = sCurveControlPoints.length;
+  for (let i = 0; i < segmentCount(); i++) {
+    const row = document.createElement('tr');
+    const label = document.createElement('td');
+    label.textContent = `${i} → ${(i + 1) % n}`;
+    const cell = document.createElement('td');
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = '0.1';
+    input.step = '0.5';
+    input.value = String(segSpeeds[i]);
+    input.addEventListener('input', () => {
+      const value = parseFloat(input.value);
+      if (Number.isFinite(value) && value > 0) {
+        segSpeeds[i] = value;
+        rebuildSpeedProfile();
+        dbg(`Editor: segment ${i} speed = ${value}`);
+      }
     });
+    cell.appendChild(input);
+    row.append(label, cell);
+    segSpeedTableBody.appendChild(row);
+  }
 }
 
-hdrToggle?.addEventListener('change', () =>
-  setHdrEnabledFromUI(hdrToggle.checked)
+function downloadTrackJson() {
+  const track = serializeTrackFile();
+  const issues = validateTrackData(track);
+  if (issues.length) {
+    showTrackErrorPanel('Edited track', new TrackValidationError(issues));
+    return;
+  }
+  const fileName = `${fileSafeName(track.name, 'track')}.json`;
+  downloadJson(fileName, track);
+  dbg(`Editor: downloaded ${fileName}`);
+}
+
+webglRenderer.domElement.addEventListener('pointerdown', (e) => {
+  if (!isEditMode || isRideActive) return;
+  setEditorPointerFromEvent(e);
+  const pointIndex = pickControlPointIndex();
+  if (pointIndex >= 0) {
+    if (e.button === 2 || e.altKey) {
+      deleteControlPoint(pointIndex);
+      return;
+    }
+    if (e.button !== 0) return;
+    // Drag on the horizontal plane through the marker (keeps its elevation)
+    const marker = curvePointMarkersGroup.children.find(
+      (o) => o.userData.pointIndex === pointIndex
+    )!;
+    editorDragPlane.setFromNormalAndCoplanarPoint(Y_AXIS, marker.position);
+    isDraggingControlPoint = true;
+    dragPointIndex = pointIndex;
+    orbitControls.enabled = false;
+    webglRenderer.domElement.setPointerCapture(e.pointerId);
+    return;
+  }
+  if (e.button === 0 && e.shiftKey) {
+    const sampleIdx = pickTrackSampleIndex();
+    if (sampleIdx >= 0) insertControlPointAtSample(sampleIdx);
+  }
+});
+webglRenderer.domElement.addEventListener('pointermove', (e) => {
+  if (!isDraggingControlPoint) return;
+  setEditorPointerFromEvent(e);
+  if (!editorRaycaster.ray.intersectPlane(editorDragPlane, editorDragHit)) {
+    return;
+  }
+  const point = sCurveControlPoints[dragPointIndex];
+  point.x = editorDragHit.x;
+  point.z = editorDragHit.z;
+  scheduleEditorRebuild();
+});
+const endControlPointDrag = (e: PointerEvent) => {
+  if (!isDraggingControlPoint) return;
+  isDraggingControlPoint = false;
+  webglRenderer.domElement.releasePointerCapture(e.pointerId);
+  const p = sCurveControlPoints[dragPointIndex];
+  dbg(
+    `Editor: moved point ${dragPointIndex} to (${p.x.toFixed(2)}, ${p.z.toFixed(2)})`
+  );
+  dragPointIndex = -1;
+  applyTrackEdit();
+};
+webglRenderer.domElement.addEventListener('pointerup', endControlPointDrag);
+webglRenderer.domElement.addEventListener('pointercancel', endControlPointDrag);
+webglRenderer.domElement.addEventListener('contextmenu', (e) => {
+  if (isEditMode) e.preventDefault(); // right-click deletes points
+});
+
+editModeToggle?.addEventListener('change', () =>
+  setEditMode(editModeToggle.checked)
 );
-hdrBackgroundToggle?.addEventListener('change', () =>
-  updateHdrBackgroundFromUI()
+closedTrackToggle?.addEventListener('change', () =>
+  setTrackClosed(closedTrackToggle.checked)
 );
-hdrExposureInput?.addEventListener('input', () => updateHdrExposureFromUI());
+downloadTrackButton?.addEventListener('click', () => {
+  dbg('Button: Download Track JSON');
+  downloadTrackJson();
+});
 
-updateHdrExposureFromUI();
-setHdrEnabledFromUI(hdrToggle?.checked ?? false);
+document.getElementById('restart')?.addEventListener('click', () => {
+  dbg('Button: Restart (from modal)');
+  (document.getElementById('modal') as HTMLDivElement).style.display = 'none'; // Hide modal
+  stopRide();
+  enterLandscapeFlow();
+});
 
-wPrevStartInput.oninput = () => {
-  speedWindowParams.wPrevStart = parseFloat(wPrevStartInput.value);
-};
-wPrevEndInput.oninput = () => {
-  speedWindowParams.wPrevEnd = parseFloat(wPrevEndInput.value);
-};
-wNextHoldInput.oninput = () => {
-  speedWindowParams.wNextHold = parseFloat(wNextHoldInput.value);
-};
-wNextAccelInput.oninput = () => {
-  speedWindowParams.wNextAccel = parseFloat(wNextAccelInput.value);
-};
+// Show/Hide the Debug Config panel (no persistence; always shown on load)
+toggleConfigButton?.addEventListener('click', () => {
+  dbg(`Button: ${isConfigPanelVisible ? 'Hide' : 'Show'} Config`);
+  setConfigPanelVisible(!isConfigPanelVisible);
+});
 
-p0_20_Input.oninput = () => {
-  angleSpeedMultipliers.p0_20 = parseFloat(p0_20_Input.value);
-};
-p20_45_Input.oninput = () => {
-  angleSpeedMultipliers.p20_45 = parseFloat(p20_45_Input.value);
-};
-p45_90_Input.oninput = () => {
-  angleSpeedMultipliers.p45_90 = parseFloat(p45_90_Input.value);
-};
-p90_120_Input.oninput = () => {
-  angleSpeedMultipliers.p90_120 = parseFloat(p90_120_Input.value);
-};
-p120_150_Input.oninput = () => {
-  angleSpeedMultipliers.p120_150 = parseFloat(p120_150_Input.value);
-};
-p150_165_Input.oninput = () => {
-  angleSpeedMultipliers.p150_165 = parseFloat(p150_165_Input.value);
-};
-p165_180_Input.oninput = () => {
-  angleSpeedMultipliers.p165_180 = parseFloat(p165_180_Input.value);
-};
+/* ============================================================================
+   SECTION: LEADERBOARD (INDEXEDDB, PER TRACK)
+============================================================================ */
 
-function createDefaultDashedTexture(): THREE.CanvasTexture {
-  const dashLengthMeters = 3;
-  const gapLengthMeters = 3;
-  const centerDashWidthPx = 2;
-  const patternLengthMeters = dashLengthMeters + gapLengthMeters;
-  const canvas = document.createElement('canvas');
-  const canvasWidth = 64;
-  const canvasHeight = 128;
-  canvas.width = canvasWidth;
-  canvas.height = canvasHeight;
-  const ctx = canvas.getContext('2d')!;
-  ctx.fillStyle = '#404040';
-  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-  ctx.fillStyle = 'white';
-  const lineWidth = 2;
-  ctx.fillRect(0, 0, lineWidth, canvasHeight);
-  ctx.fillRect(canvasWidth - lineWidth, 0, lineWidth, canvasHeight);
-  const dashHeightPx = (dashLengthMeters / patternLengthMeters) * canvasHeight;
-  const dashX = canvasWidth / 2 - centerDashWidthPx / 2;
-  ctx.fillRect(dashX, 0, centerDashWidthPx, dashHeightPx);
-  const texture = new THREE.CanvasTexture(canvas);
-  texture.wrapS = THREE.RepeatWrapping;
-  texture.wrapT = THREE.RepeatWrapping;
-  texture.colorSpace = THREE.SRGBColorSpace;
-  texture.anisotropy = webglRenderer.capabilities.getMaxAnisotropy();
-  texture.repeat.y = 1 / patternLengthMeters;
-  return texture;
+const LEADERBOARD_DB_NAME = 'ridePrototype';
+const LEADERBOARD_STORE = 'scores';
+const GHOST_STORE = 'ghosts'; // best ghost run per track (see GHOST RUN)
+const LEADERBOARD_SIZE = 20; // rows shown per track
+
+interface LeaderboardEntry {
+  id?: number;
+  trackHash: string;
+  trackName: string;
+  trackDate: string;
+  initials: string;
+  score: number;
+  grade: string;
+  difficulty: string;
+  durationSeconds: number;
+  recordedAt: string;
+}
+
+const leaderboardModalElement = document.getElementById(
+  'leaderboardModal'
+) as HTMLDivElement;
+const leaderboardTrackElement = document.getElementById(
+  'leaderboardTrack'
+) as HTMLSpanElement;
+const leaderboardBodyElement = document.getElementById(
+  'leaderboardBody'
+) as HTMLTableSectionElement;
+const leaderboardStatusElement = document.getElementById(
+  'leaderboardStatus'
+) as HTMLParagraphElement;
+const successInitialsInput = document.getElementById(
+  'successInitials'
+) as HTMLInputElement;
+const saveScoreButton = document.getElementById(
+  'saveScore'
+) as HTMLButtonElement;
+
+// Result of the last finished ride, waiting for initials
+let pendingLeaderboardEntry: Omit<LeaderboardEntry, 'initials'> | null = null;
+let leaderboardDbPromise: Promise<IDBDatabase> | null = null;
+
+/* FNV-1a over the geometry and speeds only, so renaming a track or changing
+   its date keeps its leaderboard */
+function trackIdentityHash(): string {
+  const { points, segmentSpeeds, closed } = serializeTrackFile();
+  const text = JSON.stringify({ points, segmentSpeeds, closed: !!closed });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openLeaderboardDb(): Promise<IDBDatabase> {
+  if (!leaderboardDbPromise) {
+    leaderboardDbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(LEADERBOARD_DB_NAME, 2);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(LEADERBOARD_STORE)) {
+          const store = db.createObjectStore(LEADERBOARD_STORE, {
+            keyPath: 'id',
+            autoIncrement: true,
+          });
+          store.createIndex('trackHash', 'trackHash');
+        }
+        if (!db.objectStoreNames.contains(GHOST_STORE)) {
+          db.createObjectStore(GHOST_STORE, { keyPath: 'trackHash' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry after a failure
+    leaderboardDbPromise.catch(() => (leaderboardDbPromise = null));
+  }
+  return leaderboardDbPromise;
 }
 
-function createRacingTexture(): THREE.CanvasTexture {
-  const canvas = document.createElement('canvas');
-  const canvasWidth = 64;
-  const canvasHeight = 64;
-  canvas.width = canvasWidth;
-  canvas.height = canvasHeight;
-  const ctx = canvas.getContext('2d')!;
-  ctx.fillStyle = '#404040';
-  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-  const curbWidth = 4;
-  const curbSegmentLength = canvasHeight / 2;
-  ctx.fillStyle = '#ff0000'; // Red
-  ctx.fillRect(0, 0, curbWidth, curbSegmentLength);
-  ctx.fillRect(
-    canvasWidth - curbWidth,
-    curbSegmentLength,
-    curbWidth,
-    curbSegmentLength
+async function addLeaderboardEntry(entry: LeaderboardEntry): Promise<number> {
+  const db = await openLeaderboardDb();
+  const store = db
+    .transaction(LEADERBOARD_STORE, 'readwrite')
+    .objectStore(LEADERBOARD_STORE);
+  return Number(await promisifyRequest(store.add(entry)));
+}
+
+/* Best first: higher score, then the faster ride, then the earlier entry */
+async function getLeaderboardEntries(
+  trackHash: string
+): Promise<LeaderboardEntry[]> {
+  const db = await openLeaderboardDb();
+  const index = db
+    .transaction(LEADERBOARD_STORE, 'readonly')
+    .objectStore(LEADERBOARD_STORE)
+    .index('trackHash');
+  const entries = (await promisifyRequest(
+    index.getAll(trackHash)
+  )) as LeaderboardEntry[];
+  return entries.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.durationSeconds - b.durationSeconds ||
+      a.recordedAt.localeCompare(b.recordedAt)
   );
-  ctx.fillStyle = '#ffffff'; // White
-  ctx.fillRect(0, curbSegmentLength, curbWidth, curbSegmentLength);
-  ctx.fillRect(canvasWidth - curbWidth, 0, curbWidth, curbSegmentLength);
-  const texture = new THREE.CanvasTexture(canvas);
-  texture.wrapS = THREE.RepeatWrapping;
-  texture.wrapT = THREE.RepeatWrapping;
-  texture.colorSpace = THREE.SRGBColorSpace;
-  texture.anisotropy = webglRenderer.capabilities.getMaxAnisotropy();
-  texture.repeat.y = 1 / 1.0;
-  return texture;
 }
 
-function applyAlphaMaskShader(material: THREE.MeshStandardMaterial) {
-  material.onBeforeCompile = (shader) => {
-    shader.uniforms.u_cartDistance = { value: 0.0 };
-    shader.uniforms.u_useFade = { value: fadeEffectInput.value === 'dynamic' };
-    shader.uniforms.u_fadeInStart = {
-      value: parseFloat(fadeInStartInput.value),
-    };
-    shader.uniforms.u_fadeInEnd = { value: parseFloat(fadeInEndInput.value) };
-    shader.uniforms.u_fadeOutStart = {
-      value: parseFloat(fadeOutStartInput.value),
-    };
-    shader.uniforms.u_fadeOutEnd = { value: parseFloat(fadeOutEndInput.value) };
+async function clearLeaderboard(trackHash: string) {
+  const db = await openLeaderboardDb();
+  const store = db
+    .transaction(LEADERBOARD_STORE, 'readwrite')
+    .objectStore(LEADERBOARD_STORE);
+  const keys = await promisifyRequest(
+    store.index('trackHash').getAllKeys(trackHash)
+  );
+  await Promise.all(keys.map((key) => promisifyRequest(store.delete(key))));
+}
 
-    material.userData.shader = shader;
+function prepareLeaderboardEntry(grade: string) {
+  pendingLeaderboardEntry = {
+    trackHash: trackIdentityHash(),
+    trackName: trackName || 'Untitled',
+    trackDate,
+    score: playerScore,
+    grade,
+    difficulty:
+      difficultyInput?.selectedOptions[0]?.textContent ??
+      difficultyInput?.value ??
+      '-',
+    durationSeconds: rideElapsedSeconds,
+    recordedAt: new Date().toISOString(),
+  };
+  if (saveScoreButton) saveScoreButton.disabled = false;
+  if (successInitialsInput) successInitialsInput.value = '';
+}
 
-    shader.vertexShader =
-      `
-          varying float vPathDistance;
-      ` + shader.vertexShader;
+async function savePendingLeaderboardEntry() {
+  if (!pendingLeaderboardEntry) return;
+  const initials =
+    (successInitialsInput?.value ?? '')
+      .toUpperCase()
+      .replace(/[^A-Z0-9]/g, '')
+      .slice(0, 3) || '???';
+  const pending = pendingLeaderboardEntry;
+  const entry = { ...pending, initials };
+  // Claimed before the await so Enter + click or a double click saves once
+  pendingLeaderboardEntry = null;
+  if (saveScoreButton) saveScoreButton.disabled = true;
+  let id: number;
+  try {
+    id = await addLeaderboardEntry(entry);
+  } catch (err) {
+    pendingLeaderboardEntry = pending;
+    if (saveScoreButton) saveScoreButton.disabled = false;
+    dbg('Leaderboard save error: ' + (err as any)?.message);
+    alert('Could not save score: ' + (err as any)?.message);
+    return;
+  }
+  dbg(`Leaderboard: saved ${initials} ${entry.score} (#${id})`);
+  await openLeaderboard(id);
+}
 
-    shader.vertexShader = shader.vertexShader.replace(
-      '#include <begin_vertex>',
-      `#include <begin_vertex>
-           vPathDistance = uv.y;`
+async function openLeaderboard(highlightId?: number) {
+  if (!leaderboardModalElement) return;
+  const trackHash = trackIdentityHash();
+  leaderboardTrackElement.textContent = `${trackName || 'Untitled'}${
+    trackDate ? ` (${trackDate})` : ''
+  }`;
+  leaderboardModalElement.style.display = 'grid';
+  leaderboardBodyElement.innerHTML = '';
+  leaderboardStatusElement.textContent = 'Loading…';
+  try {
+    const entries = await getLeaderboardEntries(trackHash);
+    entries.slice(0, LEADERBOARD_SIZE).forEach((entry, i) => {
+      const row = leaderboardBodyElement.insertRow();
+      if (entry.id === highlightId) row.className = 'highlight';
+      [
+        String(i + 1),
+        entry.initials,
+        String(entry.score),
+        entry.grade,
+        entry.difficulty,
+        formatDuration(entry.durationSeconds),
+        new Date(entry.recordedAt).toLocaleDateString(),
+      ].forEach((text) => (row.insertCell().textContent = text));
+    });
+    leaderboardStatusElement.textContent = entries.length
+      ? ''
+      : 'No scores yet for this track.';
+  } catch (err) {
+    dbg('Leaderboard load error: ' + (err as any)?.message);
+    leaderboardStatusElement.textContent = `Leaderboard unavailable: ${
+      (err as any)?.message
+    }`;
+  }
+}
+
+async function exportLeaderboard() {
+  try {
+    const entries = await getLeaderboardEntries(trackIdentityHash());
+    downloadJson(
+      `${fileSafeName(trackName, 'track')}-leaderboard.json`,
+      entries
     );
+  } catch (err) {
+    dbg('Leaderboard export error: ' + (err as any)?.message);
+  }
+}
 
-    shader.fragmentShader =
-      `
-          uniform float u_cartDistance;
-          uniform bool u_useFade;
-          uniform float u_fadeInStart;
-          uniform float u_fadeInEnd;
-          uniform float u_fadeOutStart;
-          uniform float u_fadeOutEnd;
-          varying float vPathDistance;
-      ` + shader.fragmentShader;
+saveScoreButton?.addEventListener('click', () => {
+  dbg('Button: Save Score');
+  savePendingLeaderboardEntry();
+});
+successInitialsInput?.addEventListener('keydown', (e) => {
+  if (e.key === 'Enter') savePendingLeaderboardEntry();
+});
+['successLeaderboard', 'tryAgainLeaderboard'].forEach((id) =>
+  document.getElementById(id)?.addEventListener('click', () => {
+    dbg('Button: Leaderboard');
+    openLeaderboard();
+  })
+);
+document.getElementById('exportLeaderboard')?.addEventListener('click', () => {
+  dbg('Button: Export Leaderboard');
+  exportLeaderboard();
+});
+document
+  .getElementById('clearLeaderboard')
+  ?.addEventListener('click', async () => {
+    if (!confirm('Clear all scores for this track?')) return;
+    dbg('Button: Clear Leaderboard');
+    try {
+      await clearLeaderboard(trackIdentityHash());
+    } catch (err) {
+      dbg('Leaderboard clear error: ' + (err as any)?.message);
+    }
+    openLeaderboard();
+  });
+document.getElementById('closeLeaderboard')?.addEventListener('click', () => {
+  leaderboardModalElement.style.display = 'none';
+});
 
-    shader.fragmentShader = shader.fragmentShader.replace(
-      '#include <dithering_fragment>',
-      `#include <dithering_fragment>
+/* ============================================================================
+   SECTION: GHOST RUN (RECORD BEST RUN / REPLAY AS GHOST CART)
+============================================================================ */
 
+const GHOST_SAMPLE_SECONDS = 0.1;
+// Flat sample layout: [t, lap, rideProgressS, needle, cameraOffset, score]
+const GHOST_SAMPLE_STRIDE = 6;
+
+interface GhostRun {
+  kind: 'ghost-run';
+  version: 1;
+  trackHash: string;
+  trackName: string;
+  score: number;
+  durationSeconds: number;
+  recordedAt: string;
+  samples: number[];
+}
 
-      if (u_useFade) {
-        float distToCart = vPathDistance - u_cartDistance;
-        float alphaBehind = smoothstep(u_fadeInStart, u_fadeInEnd, distToCart);
-        float alphaAhead = 1.0 - smoothstep(u_fadeOutStart, u_fadeOutEnd, distToCart);
-        gl_FragColor.a *= min(alphaBehind, alphaAhead);
-      }`
-    );
-  };
+const ghostToggle = document.getElementById('ghostToggle') as HTMLInputElement;
+const ghostStatusElement = document.getElementById(
+  'ghostStatus'
+) as HTMLSpanElement;
+const ghostDeltaElement = document.getElementById(
+  'ghostDelta'
+) as HTMLDivElement;
+const importGhostInput = document.getElementById(
+  'importGhost'
+) as HTMLInputElement;
+
+const ghostCart = new THREE.Mesh(
+  cartBody.geometry,
+  new THREE.MeshBasicMaterial({
+    color: 0x66ccff,
+    transparent: true,
+    opacity: 0.35,
+    depthWrite: false,
+  })
+);
+ghostCart.visible = false;
+scene.add(ghostCart);
+
+let isGhostEnabled = ghostToggle?.checked ?? true;
+let ghostRecordingSamples: number[] | null = null;
+let ghostRecordingAccumulator = 0;
+let activeGhost: GhostRun | null = null; // played back this ride
+let importedGhost: GhostRun | null = null; // a colleague's run, if loaded
+let ghostPlaybackIndex = 0;
+let ghostScoreNow = 0;
+
+function pushGhostSample(needle: number) {
+  ghostRecordingSamples?.push(
+    Math.round(rideElapsedSeconds * 1000) / 1000,
+    currentLap,
+    Math.round(rideProgressS * 1000) / 1000,
+    Math.round(needle * 1000) / 1000,
+    Math.round(cameraOffsetCurrent * 10000) / 10000,
+    playerScore
+  );
 }
 
-function createAllRoadMaterials() {
-  roadMaterials['default'] = new THREE.MeshStandardMaterial({
-    map: createDefaultDashedTexture(),
-  });
-  roadMaterials['solid'] = new THREE.MeshStandardMaterial({ color: 0x282828 });
-  roadMaterials['racing'] = new THREE.MeshStandardMaterial({
-    map: createRacingTexture(),
-  });
+function recordGhostSample(needle: number, deltaSeconds: number) {
+  if (!ghostRecordingSamples) return;
+  ghostRecordingAccumulator += deltaSeconds;
+  if (ghostRecordingAccumulator < GHOST_SAMPLE_SECONDS) return;
+  ghostRecordingAccumulator %= GHOST_SAMPLE_SECONDS;
+  pushGhostSample(needle);
+}
 
-  for (const key in roadMaterials) {
-    const mat = roadMaterials[key];
-    mat.setValues({
-      side: THREE.DoubleSide,
-      transparent: true,
-      depthWrite: false,
-      depthTest: true,
-      polygonOffset: true,
-      polygonOffsetFactor: -1.0,
-      polygonOffsetUnits: -1.0,
-    });
-    applyAlphaMaskShader(mat);
-  }
+async function loadBestGhost(trackHash: string): Promise<GhostRun | null> {
+  const db = await openLeaderboardDb();
+  const store = db
+    .transaction(GHOST_STORE, 'readonly')
+    .objectStore(GHOST_STORE);
+  return ((await promisifyRequest(store.get(trackHash))) as GhostRun) ?? null;
 }
 
-function toggleRoadMeshVisibility() {
-  const showRoad = roadToggle.checked;
-  if (roadMesh) roadMesh.visible = showRoad;
-  roadMeshSettings.style.display = showRoad ? 'flex' : 'none';
-  if (line) line.visible = !showRoad;
+async function saveBestGhost(ghost: GhostRun) {
+  const db = await openLeaderboardDb();
+  const store = db
+    .transaction(GHOST_STORE, 'readwrite')
+    .objectStore(GHOST_STORE);
+  await promisifyRequest(store.put(ghost));
 }
 
-function rebuildCurveAndRoad() {
-  if (line) {
-    scene.remove(line);
-    line.geometry.dispose();
-  }
-  if (roadMesh) {
-    scene.remove(roadMesh);
-    roadMesh.geometry.dispose();
+/* Starts recording this ride and picks the ghost to race: an imported run
+   for this track wins over the stored best */
+async function startGhostRun() {
+  ghostRecordingSamples = [];
+  ghostRecordingAccumulator = 0;
+  ghostPlaybackIndex = 0;
+  ghostScoreNow = 0;
+  pushGhostSample(0);
+  const trackHash = trackIdentityHash();
+  activeGhost = importedGhost?.trackHash === trackHash ? importedGhost : null;
+  if (!activeGhost) {
+    try {
+      activeGhost = await loadBestGhost(trackHash);
+    } catch (err) {
+      dbg('Ghost load error: ' + (err as any)?.message);
+    }
   }
-  if (sCurveControlPoints.length < 2) return;
-
-  // This now also re-runs the full analysis
-  initializePathData();
-  computeTurnAngles();
+  updateGhostStatus();
+}
 
-  // Create the colored line for toggling
-  const positions = new Float32Array(sampledPts.length * 3);
-  const colors = new Float32Array(sampledPts.length * 3);
-  const cA = new THREE.Color(0x800000),
-    cB = new THREE.Color(0x008000); // Default red to green
-  for (let i = 0; i < sampledPts.length; i++) {
-    const t = totalLen > 0 ? cumLen[i] / totalLen : 0;
-    const c = cA.clone().lerp(cB, t);
-    const p = sampledPts[i];
-    positions[i * 3 + 0] = p.x;
-    positions[i * 3 + 1] = p.y;
-    positions[i * 3 + 2] = p.z;
-    colors[i * 3 + 0] = c.r;
-    colors[i * 3 + 1] = c.g;
-    colors[i * 3 + 2] = c.b;
+/* Ride completed: keep the recording if it beats the stored best */
+async function finishGhostRecording(needle: number) {
+  if (!ghostRecordingSamples) return;
+  pushGhostSample(needle);
+  const ghost: GhostRun = {
+    kind: 'ghost-run',
+    version: 1,
+    trackHash: trackIdentityHash(),
+    trackName: trackName || 'Untitled',
+    score: playerScore,
+    durationSeconds: rideElapsedSeconds,
+    recordedAt: new Date().toISOString(),
+    samples: ghostRecordingSamples,
+  };
+  ghostRecordingSamples = null;
+  try {
+    const best = await loadBestGhost(ghost.trackHash);
+    if (!best || ghost.score > best.score) {
+      await saveBestGhost(ghost);
+      dbg(
+        `Ghost: new best ${ghost.score} (${ghost.samples.length / GHOST_SAMPLE_STRIDE} samples)`
+      );
+    }
+  } catch (err) {
+    dbg('Ghost save error: ' + (err as any)?.message);
   }
-  const lineGeom = new THREE.BufferGeometry();
-  lineGeom.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-  lineGeom.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-  line = new THREE.Line(lineGeom, lineMat);
-  scene.add(line);
+  updateGhostStatus();
+}
 
-  // Apply progressive vertical offset to sampledPts to alleviate z-fighting
-  const heightScale = parseFloat(heightScaleInput.value) || 0;
-  for (let i = 0; i < sampledPts.length; i++) {
-    sampledPts[i].y += cumLen[i] * heightScale;
+function updateGhostPlayback() {
+  const ghost = activeGhost;
+  const samples = ghost?.samples;
+  if (!isRideActive || !isGhostEnabled || !samples || samples.length === 0) {
+    ghostCart.visible = false;
+    if (ghostDeltaElement) ghostDeltaElement.style.display = 'none';
+    return;
+  }
+  const count = samples.length / GHOST_SAMPLE_STRIDE;
+  while (
+    ghostPlaybackIndex < count - 1 &&
+    samples[(ghostPlaybackIndex + 1) * GHOST_SAMPLE_STRIDE] <=
+      rideElapsedSeconds
+  ) {
+    ghostPlaybackIndex++;
   }
+  const a = ghostPlaybackIndex * GHOST_SAMPLE_STRIDE;
+  const b = Math.min(ghostPlaybackIndex + 1, count - 1) * GHOST_SAMPLE_STRIDE;
+  const span = samples[b] - samples[a];
+  const k =
+    span > 0 ? clampNumber((rideElapsedSeconds - samples[a]) / span, 0, 1) : 0;
+  // Interpolate total distance so lap wraps don't sweep back along the track
+  const distanceA = (samples[a + 1] - 1) * totalLen + samples[a + 2];
+  const distanceB = (samples[b + 1] - 1) * totalLen + samples[b + 2];
+  const distance = THREE.MathUtils.lerp(distanceA, distanceB, k);
+  // Back into one lap, keeping the finish at totalLen rather than 0
+  const s =
+    distance > 0 ? distance - Math.ceil(distance / totalLen - 1) * totalLen : 0;
+  const offset = THREE.MathUtils.lerp(samples[a + 4], samples[b + 4], k);
+  ghostScoreNow = samples[a + 5];
 
-  // Build road mesh
-  const roadVertices: number[] = [];
-  const roadNormals: number[] = [];
-  const roadUvs: number[] = [];
-  const roadIndices: number[] = [];
+  const idx = distanceToIndex(s);
+  const tangent = tangentAtIndex(idx);
+  ghostCart.position
+    .copy(sampledPts[idx])
+    .add(lateralOffsetAtIndex(idx, tangent, offset));
+  ghostCart.setRotationFromQuaternion(
+    new THREE.Quaternion()
+      .setFromAxisAngle(tangent, sampledBank[idx] ?? 0)
+      .multiply(new THREE.Quaternion().setFromUnitVectors(Y_AXIS, tangent))
+  );
+  ghostCart.visible = true;
 
-  const roadWidth = parseFloat(roadWidthInput.value) || 0.5;
-  for (let i = 0; i < sampledPts.length; i++) {
-    const p = sampledPts[i];
-    const tangent =
-      i < sampledPts.length - 1
-        ? new THREE.Vector3().subVectors(sampledPts[i + 1], p)
-        : new THREE.Vector3().subVectors(p, sampledPts[i - 1]);
-    tangent.setY(0).normalize();
-
-    const normal = new THREE.Vector3(0, 1, 0);
-    const binormal = new THREE.Vector3()
-      .crossVectors(tangent, normal)
-      .normalize();
+  if (ghostDeltaElement) {
+    const delta = playerScore - ghostScoreNow;
+    ghostDeltaElement.style.display = '';
+    ghostDeltaElement.textContent = `Ghost ${delta >= 0 ? '+' : ''}${delta}`;
+    ghostDeltaElement.style.color = delta >= 0 ? '#2ecc71' : '#ff6b6b';
+  }
+}
 
-    const v_left = p.clone().addScaledVector(binormal, -roadWidth / 2);
-    const v_right = p.clone().addScaledVector(binormal, roadWidth / 2);
+function updateGhostStatus() {
+  if (!ghostStatusElement) return;
+  const ghost = activeGhost ?? importedGhost;
+  ghostStatusElement.textContent = ghost
+    ? `${ghost === importedGhost ? 'Imported' : 'Best'}: ${ghost.score} pts, ${formatDuration(ghost.durationSeconds)}`
+    : 'No ghost yet';
+}
 
-    roadVertices.push(v_left.x, v_left.y, v_left.z);
-    roadVertices.push(v_right.x, v_right.y, v_right.z);
-    roadNormals.push(0, 1, 0, 0, 1, 0);
-    roadUvs.push(0, cumLen[i], 1, cumLen[i]);
+function parseGhostRun(text: string): GhostRun {
+  const data = JSON.parse(text);
+  if (!isPlainObject(data) || data.kind !== 'ghost-run') {
+    throw new Error('not a ghost run');
+  }
+  if (data.version !== 1) {
+    throw new Error(`unsupported ghost version ${data.version}`);
+  }
+  const issues: TrackIssue[] = [];
+  (['trackHash', 'trackName'] as const).forEach((key) => {
+    const value = data[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push({ path: `$.${key}`, message: 'must be a non-empty string' });
+    }
+  });
+  checkFiniteNumber(issues, '$.score', data.score, true);
+  if (
+    checkFiniteNumber(
+      issues,
+      '$.durationSeconds',
+      data.durationSeconds,
+      true
+    ) &&
+    data.durationSeconds <= 0
+  ) {
+    issues.push({ path: '$.durationSeconds', message: 'must be positive' });
+  }
+  const { samples } = data;
+  if (!Array.isArray(samples) || samples.length % GHOST_SAMPLE_STRIDE !== 0) {
+    issues.push({
+      path: '$.samples',
+      message: `must be an array of ${GHOST_SAMPLE_STRIDE}-number samples`,
+    });
+  } else {
+    const bad = samples.findIndex(
+      (v) => typeof v !== 'number' || !Number.isFinite(v)
+    );
+    if (bad >= 0) {
+      issues.push({
+        path: `$.samples[${bad}]`,
+        message: 'must be a finite number',
+      });
+    }
+  }
+  if (issues.length) throw new TrackValidationError(issues, 'Ghost run');
+  return data as unknown as GhostRun;
+}
 
-    if (i < sampledPts.length - 1) {
-      const i0 = i * 2,
-        i1 = i0 + 1,
-        i2 = i0 + 2,
-        i3 = i0 + 3;
-      roadIndices.push(i0, i2, i1, i1, i2, i3);
+ghostToggle?.addEventListener('change', () => {
+  isGhostEnabled = ghostToggle.checked;
+  dbg(`Toggle: Ghost = ${isGhostEnabled}`);
+});
+document.getElementById('exportGhost')?.addEventListener('click', async () => {
+  dbg('Button: Export Ghost');
+  try {
+    const ghost = await loadBestGhost(trackIdentityHash());
+    if (!ghost) {
+      alert('No best run recorded on this track yet.');
+      return;
+    }
+    downloadJson(`${fileSafeName(ghost.trackName, 'track')}-ghost.json`, ghost);
+  } catch (err) {
+    dbg('Ghost export error: ' + (err as any)?.message);
+  }
+});
+importGhostInput?.addEventListener('change', async () => {
+  const file = importGhostInput.files?.[0];
+  if (!file) return;
+  try {
+    const ghost = parseGhostRun(await file.text());
+    if (ghost.trackHash !== trackIdentityHash()) {
+      throw new Error(
+        `recorded on a different track (${ghost.trackName}); load that track first`
+      );
     }
+    importedGhost = activeGhost = ghost;
+    dbg(`Ghost imported: ${ghost.score} pts`);
+  } catch (err) {
+    dbg('Ghost import error: ' + (err as any)?.message);
+    showTrackErrorPanel(file.name, err, 'Ghost import failed');
   }
+  importGhostInput.value = '';
+  updateGhostStatus();
+});
+document.getElementById('clearImportedGhost')?.addEventListener('click', () => {
+  dbg('Button: Use My Best Ghost');
+  importedGhost = activeGhost = null;
+  updateGhostStatus();
+});
 
-  const roadGeom = new THREE.BufferGeometry();
-  roadGeom.setAttribute(
-    'position',
-    new THREE.Float32BufferAttribute(roadVertices, 3)
-  );
-  roadGeom.setAttribute(
-    'normal',
-    new THREE.Float32BufferAttribute(roadNormals, 3)
-  );
-  roadGeom.setAttribute('uv', new THREE.Float32BufferAttribute(roadUvs, 2));
-  roadGeom.setIndex(roadIndices);
+/* ============================================================================
+   SECTION: RIDE TELEMETRY + POST-RIDE REVIEW (ACCURACY HEATMAP)
+============================================================================ */
 
-  const selectedMatKey = roadMaterialPresetInput.value;
-  const selectedMat = roadMaterials[selectedMatKey] || roadMaterials['default'];
-  roadMesh = new THREE.Mesh(roadGeom, selectedMat);
-  roadMesh.renderOrder = 10; // ensure road draws after opaque scene content
-  scene.add(roadMesh);
+// One sample per score tick: [rideProgressS, needle, targetCenter, overlap, accuracy]
+const TELEMETRY_STRIDE = 5;
+const REVIEW_BIN_METERS = 0.5; // heatmap resolution along the track
 
-  toggleRoadMeshVisibility();
+interface RideTelemetry {
+  samples: number[];
+  heartLossS: number[]; // rideProgressS of each hit
+}
+
+const reviewPanelElement = document.getElementById(
+  'reviewPanel'
+) as HTMLDivElement;
+const reviewSummaryElement = document.getElementById(
+  'reviewSummary'
+) as HTMLParagraphElement;
+const reviewSegmentsBodyElement = document.getElementById(
+  'reviewSegmentsBody'
+) as HTMLTableSectionElement;
+
+let rideTelemetry: RideTelemetry = { samples: [], heartLossS: [] };
+let reviewReturnModal: HTMLDivElement | null = null;
+let reviewBaseLineColors: Float32Array | null = null;
+const reviewMarkersGroup = new THREE.Group();
+reviewMarkersGroup.visible = false;
+scene.add(reviewMarkersGroup);
+const reviewMarkerGeometry = new THREE.SphereGeometry(0.12, 12, 12);
+const reviewMarkerMaterial = new THREE.MeshBasicMaterial({ color: 0xff3344 });
+const reviewColorMiss = new THREE.Color(0xd62828);
+const reviewColorMid = new THREE.Color(0xf7b801);
+const reviewColorHit = new THREE.Color(0x2ecc71);
+const reviewColorUnvisited = new THREE.Color(0x555555);
+
+function resetRideTelemetry() {
+  rideTelemetry = { samples: [], heartLossS: [] };
+}
 
-  // Regenerate curve point markers to align with the new curve geometry
-  regenerateCurvePointMarkers();
+function recordTelemetrySample(
+  needle: number,
+  accuracy: number,
+  isOverlapping: boolean
+) {
+  rideTelemetry.samples.push(
+    rideProgressS,
+    needle,
+    targetCenterNormalizedSmoothed,
+    isOverlapping ? 1 : 0,
+    accuracy
+  );
 }
 
-async function loadPathFromJSON(fileOrUrl: File | string) {
-  try {
-    let text: string;
-    if (typeof fileOrUrl === 'string') {
-      const response = await fetch(fileOrUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch path: ${response.statusText}`);
-      }
-      text = await response.text();
-    } else {
-      text = await fileOrUrl.text();
-    }
+/* Mean accuracy per REVIEW_BIN_METERS bin (NaN where the ride never went);
+   laps fold onto the same bins */
+function binTelemetryAccuracy(binCount: number): Float32Array {
+  const sums = new Float32Array(binCount);
+  const counts = new Uint32Array(binCount);
+  const samples = rideTelemetry.samples;
+  for (let i = 0; i < samples.length; i += TELEMETRY_STRIDE) {
+    const bin = Math.min(
+      binCount - 1,
+      Math.floor(samples[i] / REVIEW_BIN_METERS)
+    );
+    sums[bin] += samples[i + 4];
+    counts[bin] += 1;
+  }
+  return sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : NaN));
+}
 
-    const data = JSON.parse(text);
-    if (!Array.isArray(data.points) || data.points.length < 2) {
-      throw new Error('JSON must include at least two points');
+function segmentAccuracy(i: number) {
+  const [sA, sB] = segmentRangeS(i);
+  let sum = 0,
+    count = 0;
+  const samples = rideTelemetry.samples;
+  for (let k = 0; k < samples.length; k += TELEMETRY_STRIDE) {
+    if (samples[k] >= sA && samples[k] < sB) {
+      sum += samples[k + 4];
+      count++;
     }
+  }
+  const heartsLost = rideTelemetry.heartLossS.filter(
+    (s) => s >= sA && s < sB
+  ).length;
+  return { accuracy: count > 0 ? sum / count : NaN, heartsLost };
+}
 
-    // Update UI with name and date
-    if (pathNameSpan) pathNameSpan.textContent = data.name || '-';
-    if (pathDateSpan) pathDateSpan.textContent = data.date || '-';
+function accuracyColor(accuracy: number, target: THREE.Color) {
+  if (!Number.isFinite(accuracy)) return target.copy(reviewColorUnvisited);
+  return accuracy < 0.5
+    ? target.copy(reviewColorMiss).lerp(reviewColorMid, accuracy * 2)
+    : target.copy(reviewColorMid).lerp(reviewColorHit, accuracy * 2 - 1);
+}
 
-    // Update path data
-    sCurveControlPoints.length = 0;
-    const newPts = data.points.map(
-      (p: any) => new THREE.Vector3(+p.x, 0, +p.z)
+function paintReviewHeatmap() {
+  if (!line) return;
+  const colorAttr = line.geometry.getAttribute(
+    'color'
+  ) as THREE.BufferAttribute;
+  const colors = colorAttr.array as Float32Array;
+  if (!reviewBaseLineColors) reviewBaseLineColors = colors.slice();
+  const binCount = Math.max(1, Math.ceil(totalLen / REVIEW_BIN_METERS));
+  const bins = binTelemetryAccuracy(binCount);
+  const color = new THREE.Color();
+  for (let i = 0; i < sampledPts.length; i++) {
+    const bin = Math.min(
+      binCount - 1,
+      Math.floor(cumLen[i] / REVIEW_BIN_METERS)
     );
-    sCurveControlPoints.push(...newPts);
+    accuracyColor(bins[bin], color).toArray(colors, i * 3);
+  }
+  colorAttr.needsUpdate = true;
+}
 
-    const defaultSpeed = 10;
-    const need = Math.max(0, sCurveControlPoints.length - 1);
-    let speeds = Array.isArray(data.segmentSpeeds)
-      ? data.segmentSpeeds.slice()
-      : [];
-    if (speeds.length < need) {
-      while (speeds.length < need) speeds.push(defaultSpeed);
-    } else if (speeds.length > need) {
-      speeds = speeds.slice(0, need);
-    }
-    segSpeeds = speeds.map((v: any) =>
-      Math.max(0, parseFloat(v) || defaultSpeed)
-    );
+function placeReviewMarkers() {
+  reviewMarkersGroup.clear();
+  rideTelemetry.heartLossS.forEach((s) => {
+    const marker = new THREE.Mesh(reviewMarkerGeometry, reviewMarkerMaterial);
+    marker.position.copy(sampledPts[distanceToIndex(s)]);
+    marker.position.y += 0.2;
+    reviewMarkersGroup.add(marker);
+  });
+  reviewMarkersGroup.visible = true;
+}
 
-    // Rebuild the entire curve and road mesh from the new data
-    rebuildCurveAndRoad();
+function renderReviewSegments() {
+  if (!reviewSegmentsBodyElement) return;
+  reviewSegmentsBodyElement.innerHTML = '';
+  const rows = Array.from({ length: segmentCount() }, (_, i) => ({
+    i,
+    ...segmentAccuracy(i),
+  }));
+  const visited = rows.filter((r) => Number.isFinite(r.accuracy));
+  const worst = visited.length
+    ? visited.reduce((a, b) => (b.accuracy < a.accuracy ? b : a))
+    : null;
+  const n = sCurveControlPoints.length;
+  const color = new THREE.Color();
+  rows.forEach(({ i, accuracy, heartsLost }) => {
+    const row = reviewSegmentsBodyElement.insertRow();
+    if (worst && i === worst.i) row.className = 'worst';
+    const turn = turnAngle[(i + 1) % n] ?? 0;
+    [
+      `${i}→${(i + 1) % n}`,
+      Number.isFinite(accuracy) ? `${(accuracy * 100).toFixed(0)}%` : '-',
+      String(heartsLost),
+      turn ? `${turn.toFixed(0)}°` : '-',
+    ].forEach((text) => (row.insertCell().textContent = text));
+    row.cells[1].style.color = `#${accuracyColor(accuracy, color).getHexString()}`;
+  });
+}
 
-    // Reset the camera to the start of the NEWLY loaded path
-    resetCameraToPathStart();
+/* Shows the heatmap from above with orbit controls; the modal it was opened
+   from comes back when the review closes */
+function openRideReview(fromModal: HTMLDivElement) {
+  if (!line || !reviewPanelElement) return;
+  reviewReturnModal = fromModal;
+  fromModal.style.display = 'none';
+  paintReviewHeatmap();
+  placeReviewMarkers();
+  renderReviewSegments();
+  line.visible = true;
+  if (roadMesh) roadMesh.visible = false;
+
+  const bounds = new THREE.Box3().setFromPoints(sampledPts);
+  const center = bounds.getCenter(new THREE.Vector3());
+  const size = bounds.getSize(new THREE.Vector3());
+  rideCamera.position.set(
+    center.x,
+    center.y + Math.max(size.x, size.z, 1) * 1.1,
+    center.z + 0.01
+  );
+  orbitControls.target.copy(center);
+  orbitControls.update();
+
+  const samples = rideTelemetry.samples.length / TELEMETRY_STRIDE;
+  reviewSummaryElement.textContent = `${samples} samples, accuracy ${(
+    rideAccuracy() * 100
+  ).toFixed(0)}%, ${rideTelemetry.heartLossS.length} heart(s) lost`;
+  reviewPanelElement.style.display = '';
+  dbg(`Review opened (${samples} samples)`);
+}
 
-    dbg(`Loaded path with ${sCurveControlPoints.length} points.`);
-  } catch (err: any) {
-    alert('Path import failed: ' + (err?.message || 'Invalid JSON'));
-    dbg('Path import failed: ' + (err?.message || 'Invalid JSON'));
+function closeRideReview() {
+  if (line && reviewBaseLineColors) {
+    const colorAttr = line.geometry.getAttribute(
+      'color'
+    ) as THREE.BufferAttribute;
+    // The line may have been rebuilt while reviewing
+    if (colorAttr.array.length === reviewBaseLineColors.length) {
+      (colorAttr.array as Float32Array).set(reviewBaseLineColors);
+      colorAttr.needsUpdate = true;
+    }
   }
+  reviewBaseLineColors = null;
+  reviewMarkersGroup.clear();
+  reviewMarkersGroup.visible = false;
+  toggleRoadMeshVisibility();
+  if (reviewPanelElement) reviewPanelElement.style.display = 'none';
+  if (reviewReturnModal) reviewReturnModal.style.display = 'grid';
+  reviewReturnModal = null;
 }
 
-document.getElementById('restart')?.addEventListener('click', () => {
-  dbg('Button: Restart (from modal)');
-  (document.getElementById('modal') as HTMLDivElement).style.display = 'none'; // Hide modal
-  stopRide();
-  enterLandscapeFlow();
+document.getElementById('successReview')?.addEventListener('click', () => {
+  dbg('Button: Review (from success modal)');
+  openRideReview(successModalElement);
 });
-
-// Show/Hide the Debug Config panel (no persistence; always shown on load)
-toggleConfigButton?.addEventListener('click', () => {
-  dbg(`Button: ${isConfigPanelVisible ? 'Hide' : 'Show'} Config`);
-  setConfigPanelVisible(!isConfigPanelVisible);
+document.getElementById('tryAgainReview')?.addEventListener('click', () => {
+  dbg('Button: Review (from try-again modal)');
+  openRideReview(tryAgainModalElement);
 });
+document
+  .getElementById('closeReview')
+  ?.addEventListener('click', closeRideReview);
 
 /* ============================================================================
    SECTION: LANDSCAPE / FULLSCREEN HELPERS + OVERLAY
@@ -1793,23 +5416,153 @@ window.addEventListener('orientationchange', () => {
 window.addEventListener('resize', updateLandscapeOverlayVisibility);
 updateLandscapeOverlayVisibility();
 
+/* ============================================================================
+   SECTION: PAUSE / RESUME (+ AUTO-PAUSE ON INTERRUPTIONS)
+============================================================================ */
+
+const MAX_FRAME_SECONDS = 0.1;
+
+const pauseOverlayElement = document.getElementById(
+  'pauseOverlay'
+) as HTMLDivElement;
+const pauseReasonElement = document.getElementById(
+  'pauseReason'
+) as HTMLParagraphElement;
+let countdownTimer: ReturnType<typeof setInterval> | null = null;
+
+/* 3-2-1 on the countdown overlay, then onDone. Starting a new countdown or
+   cancelCountdown() drops the pending one. */
+function runCountdown(onDone: () => void) {
+  cancelCountdown();
+  const overlay = document.getElementById('countdownOverlay') as HTMLDivElement;
+  if (!overlay) {
+    onDone();
+    return;
+  }
+  let count = 3;
+  overlay.textContent = String(count);
+  overlay.style.display = 'grid';
+  countdownTimer = setInterval(() => {
+    count -= 1;
+    if (count <= 0) {
+      cancelCountdown();
+      onDone();
+    } else {
+      overlay.textContent = String(count);
+    }
+  }, 1000);
+}
+
+function cancelCountdown() {
+  if (countdownTimer !== null) clearInterval(countdownTimer);
+  countdownTimer = null;
+  const overlay = document.getElementById('countdownOverlay') as HTMLDivElement;
+  if (overlay) overlay.style.display = 'none';
+}
+
+function setRidePaused(paused: boolean, reason = '') {
+  if (!paused && isRidePaused) cancelCountdown();
+  isRidePaused = paused;
+  heldSteeringKeys.clear();
+  if (pauseOverlayElement) {
+    pauseOverlayElement.style.display = paused ? 'grid' : 'none';
+  }
+  if (pauseReasonElement) pauseReasonElement.textContent = reason;
+  frameClock.getDelta(); // don't carry paused time into the next frame
+}
+
+function pauseRide(reason: string) {
+  if (!isRideActive) return;
+  if (isRidePaused) {
+    // An interruption during the resume countdown keeps the ride paused
+    if (countdownTimer !== null) {
+      cancelCountdown();
+      setRidePaused(true, reason);
+    }
+    return;
+  }
+  setRidePaused(true, reason);
+  dbg(`Ride paused: ${reason}`);
+}
+
+function resumeRide() {
+  if (!isRideActive || !isRidePaused || countdownTimer !== null) return;
+  dbg('Ride resuming');
+  if (pauseOverlayElement) pauseOverlayElement.style.display = 'none';
+  runCountdown(() => setRidePaused(false));
+}
+
+function isPortraitNow() {
+  return (
+    !!window.matchMedia && window.matchMedia('(orientation: portrait)').matches
+  );
+}
+
+document.addEventListener('visibilitychange', () => {
+  if (document.hidden) pauseRide('The app was in the background.');
+});
+document.addEventListener('fullscreenchange', () => {
+  if (!document.fullscreenElement) pauseRide('Fullscreen was closed.');
+});
+// On desktop a tall window also matches portrait, so only touch devices
+// (where portrait means the phone was turned) auto-pause
+function isCoarsePointerDevice() {
+  return !!window.matchMedia && window.matchMedia('(pointer: coarse)').matches;
+}
+
+const pauseIfPortrait = () => {
+  if (isCoarsePointerDevice() && isPortraitNow()) {
+    pauseRide('Rotate back to landscape to continue.');
+  }
+};
+window.addEventListener('orientationchange', pauseIfPortrait);
+window.addEventListener('resize', pauseIfPortrait);
+window.addEventListener('keydown', (e) => {
+  if (isTypingTarget(e.target)) return;
+  if (e.code !== 'Escape' && e.code !== 'KeyP') return;
+  if (!isRideActive) return;
+  if (isRidePaused) resumeRide();
+  else pauseRide('Paused.');
+});
+document.getElementById('pause')?.addEventListener('click', () => {
+  dbg('Button: Pause');
+  if (isRidePaused) resumeRide();
+  else pauseRide('Paused.');
+});
+document.getElementById('resumeRide')?.addEventListener('click', () => {
+  dbg('Button: Resume');
+  resumeRide();
+});
+document.getElementById('pauseStop')?.addEventListener('click', () => {
+  dbg('Button: Stop (from pause)');
+  stopRide();
+});
+
 /* ============================================================================
    SECTION: PUBLIC API + MAIN LOOP
 ============================================================================ */
 
 export function startRide(loop = true) {
   // Reset all ride-related state
+  setRidePaused(false);
   resetCameraToPathStart();
-  playerScore = 0;
-  playerHearts = 3;
-  heartsTextElement.textContent = '❤❤❤';
-  wasInsideTargetPrevFrame = false;
+  resetRideScoring();
+  resetPlayerHearts();
+  rideElapsedSeconds = 0;
   isRideLooping = loop;
+  currentLap = 1;
+  updateLapHud();
   isRideActive = true;
+  if (isGyroRecordingEnabled) startGyroRecording();
+  restartGyroReplay();
+  startGhostRun();
+  resetRideTelemetry();
   frameClock.getDelta();
 }
 export function stopRide() {
+  setRidePaused(false);
   isRideActive = false;
+  stopGyroRecording();
 }
 
 /* ============================================================================
@@ -1830,42 +5583,104 @@ function distanceToIndex(distance: number): number {
 }
 
 /* Speed profile knobs */
+// Turn-angle buckets, in order; also the severity bands of turn warnings
+const ANGLE_BUCKETS: {
+  maxDegrees: number;
+  key: keyof SpeedProfileConfig['anglePercents'];
+}[] = [
+  { maxDegrees: 20, key: 'p0_20' },
+  { maxDegrees: 45, key: 'p20_45' },
+  { maxDegrees: 90, key: 'p45_90' },
+  { maxDegrees: 120, key: 'p90_120' },
+  { maxDegrees: 150, key: 'p120_150' },
+  { maxDegrees: 165, key: 'p150_165' },
+  { maxDegrees: 180, key: 'p165_180' },
+];
+
+function angleBucketIndex(deg: number): number {
+  const i = ANGLE_BUCKETS.findIndex((bucket) => deg <= bucket.maxDegrees);
+  return i < 0 ? ANGLE_BUCKETS.length - 1 : i;
+}
+
 function anglePercent(deg: number): number {
-  const d = deg;
-  if (d <= 20) return parseFloat(p0_20_Input.value) / 100;
-  if (d <= 45) return parseFloat(p20_45_Input.value) / 100;
-  if (d <= 90) return parseFloat(p45_90_Input.value) / 100;
-  if (d <= 120) return parseFloat(p90_120_Input.value) / 100;
-  if (d <= 150) return parseFloat(p120_150_Input.value) / 100;
-  if (d <= 165) return parseFloat(p150_165_Input.value) / 100;
-  return parseFloat(p165_180_Input.value) / 100;
+  const key = ANGLE_BUCKETS[angleBucketIndex(deg)].key;
+  return speedProfileConfig.anglePercents[key] / 100;
 }
 
 function baseSegmentSpeedAtS(s: number): number {
-  if (sCurveControlPoints.length < 2) return 10; // Default speed
-  // find which segment s belongs to
-  for (let i = 1; i < sCurveControlPoints.length; i++) {
-    const sA = sAtPoint[i - 1],
-      sB = sAtPoint[i];
-    if (s <= sB) return segSpeeds[i - 1] ?? 10;
+  const n = sCurveControlPoints.length;
+  if (n < 2) return 10; // Default speed
+  // find which segment s belongs to: first point i >= 1 with s <= sAtPoint[i]
+  let lo = 1,
+    hi = n;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sAtPoint[mid] < s) lo = mid + 1;
+    else hi = mid;
   }
-  // Fallback for when s is beyond the last sAtPoint, use the last segment's speed
-  return segSpeeds[segSpeeds.length - 1] ?? 10;
+  if (lo < n) return segSpeeds[lo - 1] ?? 10;
+  // Beyond the last sAtPoint: the seam segment on closed circuits, otherwise
+  // the last segment's speed
+  return segSpeeds[segmentCount() - 1] ?? 10;
 }
 
+/* Ride speed at distance s, interpolated from the baked profile */
 function speedAtS(s: number): number {
+  if (speedProfile.length === 0) return baseSegmentSpeedAtS(s);
+  const idx = distanceToIndex(s);
+  if (idx === 0) return speedProfile[0];
+  const s0 = cumLen[idx - 1],
+    s1 = cumLen[idx];
+  const t = s1 > s0 ? (s - s0) / (s1 - s0) : 1;
+  return THREE.MathUtils.lerp(
+    speedProfile[idx - 1],
+    speedProfile[idx],
+    THREE.MathUtils.clamp(t, 0, 1)
+  );
+}
+
+/* Bake the selected speed model into speedProfile. Call whenever the track,
+   segSpeeds or speedProfileConfig changes. */
+function rebuildSpeedProfile() {
+  const count = sampledPts.length;
+  const profile = new Float32Array(count);
+  if (count >= 2) {
+    if (speedProfileConfig.model === 'physics') {
+      bakePhysicsSpeedProfile(profile);
+    } else {
+      for (let i = 0; i < count; i++) {
+        profile[i] = angleWindowSpeedAtS(cumLen[i]);
+      }
+    }
+    for (let i = 0; i < count; i++) {
+      profile[i] *= speedProfileConfig.speedMultiplier;
+    }
+  }
+  speedProfile = profile;
+  isSpeedChartDirty = true;
+  updatePredictedDurationUI();
+}
+
+/* Classic model: slow down in normalized windows around each turn */
+function angleWindowSpeedAtS(s: number): number {
   let v = baseSegmentSpeedAtS(s);
   // apply normalized windows around each interior point
-  const prevStart = parseFloat(wPrevStartInput.value);
-  const prevEnd = parseFloat(wPrevEndInput.value);
-  const nextHold = parseFloat(wNextHoldInput.value);
-  const nextAccel = parseFloat(wNextAccelInput.value);
-
-  for (let i = 1; i < sCurveControlPoints.length - 1; i++) {
-    const sPrevA = sAtPoint[i - 1],
-      sPrevB = sAtPoint[i];
-    const sNextA = sAtPoint[i],
-      sNextB = sAtPoint[i + 1];
+  const {
+    wPrevStart: prevStart,
+    wPrevEnd: prevEnd,
+    wNextHold: nextHold,
+    wNextAccel: nextAccel,
+  } = speedProfileConfig.windows;
+
+  // Corners: interior points, or every point on a closed circuit (where the
+  // previous segment of point 0 is the seam)
+  const n = sCurveControlPoints.length;
+  const firstCorner = isTrackClosed ? 0 : 1;
+  const lastCorner = isTrackClosed ? n - 1 : n - 2;
+  for (let i = firstCorner; i <= lastCorner; i++) {
+    const prevSeg = (i - 1 + n) % n;
+    const [sPrevA, sPrevB] = segmentRangeS(prevSeg);
+    const [sNextA, sNextB] = segmentRangeS(i);
 
     const prevLen = Math.max(1e-6, sPrevB - sPrevA);
     const nextLen = Math.max(1e-6, sNextB - sNextA);
@@ -1873,7 +5688,7 @@ function speedAtS(s: number): number {
     const tPrev = THREE.MathUtils.clamp((s - sPrevA) / prevLen, 0, 1);
     const tNext = THREE.MathUtils.clamp((s - sNextA) / nextLen, 0, 1);
 
-    const prevV = segSpeeds[i - 1] ?? v;
+    const prevV = segSpeeds[prevSeg] ?? v;
     const nextV = segSpeeds[i] ?? v;
     const minPct = anglePercent(turnAngle[i]);
     const minV = Math.min(prevV, nextV) * minPct;
@@ -1901,6 +5716,645 @@ function speedAtS(s: number): number {
   return Math.max(0, v);
 }
 
+/* Neighbour indices a curvature window either side of i; wraps on a closed
+   circuit (even when the window is longer than the loop), clamps otherwise */
+function curvatureWindowIndices(i: number): [number, number] {
+  const last = sampledPts.length - 1;
+  const k = CURVATURE_WINDOW_SAMPLES;
+  if (isTrackClosed && last > 0) {
+    // The last sample duplicates the first, so the loop has `last` samples
+    return [
+      THREE.MathUtils.euclideanModulo(i - k, last),
+      THREE.MathUtils.euclideanModulo(i + k, last),
+    ];
+  }
+  return [Math.max(0, i - k), Math.min(last, i + k)];
+}
+
+/* Curvature (1/m) at a sampled point, from the circle through two
+   neighbours a few samples away (single-step samples are too noisy) */
+function curvatureAtIndex(i: number): number {
+  const [iA, iC] = curvatureWindowIndices(i);
+  const a = sampledPts[iA],
+    b = sampledPts[i],
+    c = sampledPts[iC];
+  const ab = a.distanceTo(b),
+    bc = b.distanceTo(c),
+    ca = c.distanceTo(a);
+  if (ab < 1e-6 || bc < 1e-6 || ca < 1e-6) return 0;
+  const ba = new THREE.Vector3().subVectors(a, b);
+  const bcVec = new THREE.Vector3().subVectors(c, b);
+  const twiceArea = ba.cross(bcVec).length();
+  return (2 * twiceArea) / (ab * bc * ca); // 4 * area / (|ab| |bc| |ca|)
+}
+
+/* Physics model: cap speed by lateral acceleration on the sampled curvature,
+   then limit acceleration (forward pass) and braking (backward pass). The
+   per-segment segSpeeds remain upper bounds. */
+function bakePhysicsSpeedProfile(profile: Float32Array) {
+  const count = profile.length;
+  const { maxLateralAccel, maxAccel, maxBraking } = speedProfileConfig.physics;
+  for (let i = 0; i < count; i++) {
+    const cap = baseSegmentSpeedAtS(cumLen[i]);
+    const kappa = curvatureAtIndex(i);
+    const vLat = kappa > 1e-6 ? Math.sqrt(maxLateralAccel / kappa) : Infinity;
+    profile[i] = Math.min(cap, vLat);
+  }
+
+  // Closed circuits go round twice so the limits carry across the seam
+  const passes = isTrackClosed ? 2 : 1;
+  const last = count - 1;
+  for (let pass = 0; pass < passes; pass++) {
+    if (isTrackClosed) profile[0] = Math.min(profile[0], profile[last]);
+    for (let i = 1; i < count; i++) {
+      const ds = cumLen[i] - cumLen[i - 1];
+      const vReach = Math.sqrt(profile[i - 1] ** 2 + 2 * maxAccel * ds);
+      if (profile[i] > vReach) profile[i] = vReach;
+    }
+  }
+  for (let pass = 0; pass < passes; pass++) {
+    if (isTrackClosed) profile[last] = Math.min(profile[last], profile[0]);
+    for (let i = last - 1; i >= 0; i--) {
+      const ds = cumLen[i + 1] - cumLen[i];
+      const vReach = Math.sqrt(profile[i + 1] ** 2 + 2 * maxBraking * ds);
+      if (profile[i] > vReach) profile[i] = vReach;
+    }
+  }
+}
+
+function updateSpeedModelUI() {
+  const { model } = speedProfileConfig;
+  if (speedModelInput) speedModelInput.value = model;
+  if (physicsSpeedSettings) {
+    physicsSpeedSettings.style.display = model === 'physics' ? 'flex' : 'none';
+  }
+  if (angleSpeedSettings) {
+    angleSpeedSettings.style.display = model === 'angle' ? 'flex' : 'none';
+  }
+}
+
+speedModelInput?.addEventListener('change', () => {
+  speedProfileConfig.model =
+    speedModelInput.value === 'physics' ? 'physics' : 'angle';
+  dbg(`Input: Speed Model = ${speedProfileConfig.model}`);
+  updateSpeedModelUI();
+  rebuildSpeedProfile();
+});
+(
+  [
+    [maxLateralAccelInput, 'maxLateralAccel'],
+    [maxAccelInput, 'maxAccel'],
+    [maxBrakingInput, 'maxBraking'],
+  ] as const
+).forEach(([input, key]) => {
+  input?.addEventListener('input', () => {
+    const value = parseFloat(input.value);
+    if (!Number.isFinite(value) || value <= 0) return;
+    speedProfileConfig.physics[key] = value;
+    dbg(`Input: ${key} = ${value}`);
+    rebuildSpeedProfile();
+  });
+});
+updateSpeedModelUI();
+
+/* ============================================================================
+   SECTION: SPEED PROFILE CHART (SPEED VS DISTANCE)
+============================================================================ */
+
+// The static chart is cached offscreen; each frame only blits it and draws
+// the ride cursor on top.
+const speedChartCache = document.createElement('canvas');
+let isSpeedChartDirty = true;
+let speedChartMaxSpeed = 1; // y-axis top of the cached chart (m/s)
+const SPEED_CHART_PAD = { left: 30, right: 8, top: 14, bottom: 16 };
+
+function renderSpeedChartBase(width: number, height: number, dpr: number) {
+  speedChartCache.width = Math.round(width * dpr);
+  speedChartCache.height = Math.round(height * dpr);
+  const ctx = speedChartCache.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = 'rgba(0,0,0,0.35)';
+  ctx.fillRect(0, 0, width, height);
+  if (totalLen <= 0) return;
+
+  const pad = SPEED_CHART_PAD;
+  const plotW = width - pad.left - pad.right;
+  const plotH = height - pad.top - pad.bottom;
+  const columns = Math.max(2, Math.floor(plotW));
+  const speeds: number[] = [];
+  let maxSpeed = 1;
+  for (let c = 0; c <= columns; c++) {
+    const v = speedAtS((c / columns) * totalLen);
+    speeds.push(v);
+    maxSpeed = Math.max(maxSpeed, v);
+  }
+  maxSpeed *= 1.1;
+  const xAt = (s: number) => pad.left + (s / totalLen) * plotW;
+  const yAt = (v: number) => pad.top + plotH * (1 - v / maxSpeed);
+
+  // Axes + labels
+  ctx.strokeStyle = 'rgba(205,231,255,0.35)';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(pad.left, pad.top, plotW, plotH);
+  ctx.fillStyle = '#cde7ff';
+  ctx.font = '10px system-ui, sans-serif';
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'right';
+  ctx.fillText(`${Math.round(maxSpeed)}`, pad.left - 3, pad.top - 2);
+  ctx.fillText('0', pad.left - 3, pad.top + plotH - 8);
+  ctx.fillText(
+    `${totalLen.toFixed(0)} m`,
+    pad.left + plotW,
+    pad.top + plotH + 3
+  );
+  ctx.textAlign = 'left';
+  ctx.fillText('m/s', 2, pad.top + plotH / 2 - 5);
+
+  // Control points with their turn angles
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  sAtPoint.forEach((sPoint, i) => {
+    const x = xAt(sPoint);
+    const angle = turnAngle[i] ?? 0;
+    ctx.strokeStyle =
+      angle > 120 ? 'rgba(255,120,90,0.8)' : 'rgba(205,231,255,0.25)';
+    ctx.beginPath();
+    ctx.moveTo(x, pad.top);
+    ctx.lineTo(x, pad.top + plotH);
+    ctx.stroke();
+    if (angle > 0) {
+      ctx.fillStyle = angle > 120 ? '#ff9a7a' : '#cde7ff';
+      ctx.fillText(`${Math.round(angle)}°`, x, pad.top);
+    }
+  });
+
+  // Speed curve
+  ctx.strokeStyle = '#8bd4ff';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  speeds.forEach((v, c) => {
+    const x = pad.left + (c / columns) * plotW;
+    if (c === 0) ctx.moveTo(x, yAt(v));
+    else ctx.lineTo(x, yAt(v));
+  });
+  ctx.stroke();
+
+  speedChartMaxSpeed = maxSpeed;
+}
+
+function drawSpeedChart() {
+  // Skip while the chart is hidden (collapsed details or hidden panel)
+  if (!speedChartCanvas || speedChartCanvas.offsetParent === null) return;
+  const dpr = Math.min(window.devicePixelRatio || 1, 2);
+  const width = speedChartCanvas.clientWidth;
+  const height = speedChartCanvas.clientHeight;
+  if (width === 0 || height === 0) return;
+  // Canvas sizes are integers; compare rounded sizes so fractional DPRs
+  // don't rebuild the cache every frame
+  const pixelWidth = Math.round(width * dpr);
+  const pixelHeight = Math.round(height * dpr);
+  if (
+    isSpeedChartDirty ||
+    speedChartCache.width !== pixelWidth ||
+    speedChartCache.height !== pixelHeight
+  ) {
+    renderSpeedChartBase(width, height, dpr);
+    isSpeedChartDirty = false;
+  }
+  // Resizing reallocates and clears the backing store, so only on change
+  if (
+    speedChartCanvas.width !== pixelWidth ||
+    speedChartCanvas.height !== pixelHeight
+  ) {
+    speedChartCanvas.width = pixelWidth;
+    speedChartCanvas.height = pixelHeight;
+  }
+  const ctx = speedChartCanvas.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, speedChartCanvas.width, speedChartCanvas.height);
+  ctx.drawImage(speedChartCache, 0, 0);
+  if (totalLen <= 0) return;
+
+  // Ride cursor
+  const pad = SPEED_CHART_PAD;
+  const maxSpeed = speedChartMaxSpeed;
+  const plotW = width - pad.left - pad.right;
+  const plotH = height - pad.top - pad.bottom;
+  const x =
+    pad.left + (clampNumber(rideProgressS, 0, totalLen) / totalLen) * plotW;
+  const y = pad.top + plotH * (1 - speedAtS(rideProgressS) / maxSpeed);
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.strokeStyle = '#ffdd57';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(x, pad.top);
+  ctx.lineTo(x, pad.top + plotH);
+  ctx.stroke();
+  ctx.fillStyle = '#ffdd57';
+  ctx.beginPath();
+  ctx.arc(x, y, 3, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+/* ============================================================================
+   SECTION: MINIMAP (TRACK OUTLINE + LIVE POSITION)
+============================================================================ */
+
+type MinimapMode = 'off' | 'northUp' | 'headingUp';
+
+const MINIMAP_OUTLINE_POINTS = 400; // decimated from sampledPts
+const MINIMAP_SHARP_TURN_DEGREES = 90;
+const MINIMAP_UPCOMING_TURNS = 3; // sharp turns ahead drawn highlighted
+const MINIMAP_PAD = 12;
+
+const minimapCanvas = document.getElementById('minimap') as HTMLCanvasElement;
+const minimapModeInput = document.getElementById(
+  'minimapMode'
+) as HTMLSelectElement;
+let minimapMode: MinimapMode = 'headingUp';
+
+// Outline in world XZ, rebuilt whenever the sampled track is replaced
+let minimapOutlineSource: THREE.Vector3[] | null = null;
+let minimapOutline: { x: number; z: number }[] = [];
+let minimapCenterX = 0;
+let minimapCenterZ = 0;
+let minimapRadius = 1; // farthest outline point from the centre
+
+function rebuildMinimapOutline() {
+  minimapOutlineSource = sampledPts;
+  const step = Math.max(
+    1,
+    Math.floor(sampledPts.length / MINIMAP_OUTLINE_POINTS)
+  );
+  minimapOutline = [];
+  for (let i = 0; i < sampledPts.length; i += step) {
+    minimapOutline.push({ x: sampledPts[i].x, z: sampledPts[i].z });
+  }
+  const lastPoint = sampledPts[sampledPts.length - 1];
+  if (lastPoint) minimapOutline.push({ x: lastPoint.x, z: lastPoint.z });
+
+  let minX = Infinity,
+    maxX = -Infinity,
+    minZ = Infinity,
+    maxZ = -Infinity;
+  minimapOutline.forEach(({ x, z }) => {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minZ = Math.min(minZ, z);
+    maxZ = Math.max(maxZ, z);
+  });
+  minimapCenterX = (minX + maxX) / 2;
+  minimapCenterZ = (minZ + maxZ) / 2;
+  // A radius rather than a box so heading-up rotation never clips the track
+  minimapRadius = Math.max(
+    1e-3,
+    ...minimapOutline.map(({ x, z }) =>
+      Math.hypot(x - minimapCenterX, z - minimapCenterZ)
+    )
+  );
+}
+
+/* Ride progress 0..1, across all laps on a closed circuit with a lap target */
+function rideProgressFraction() {
+  if (totalLen <= 0) return 0;
+  const lapFraction = clampNumber(rideProgressS / totalLen, 0, 1);
+  if (!isTrackClosed || lapTarget <= 0) return lapFraction;
+  return clampNumber((currentLap - 1 + lapFraction) / lapTarget, 0, 1);
+}
+
+/* Distance from the rider to s along the direction of travel; wraps on a
+   closed circuit, negative once passed on an open track */
+function distanceAhead(s: number) {
+  const ahead = s - rideProgressS;
+  return isTrackClosed
+    ? THREE.MathUtils.euclideanModulo(ahead, totalLen)
+    : ahead;
+}
+
+function drawMinimap() {
+  if (!minimapCanvas) return;
+  const isShown = minimapMode !== 'off' && isRideActive && totalLen > 0;
+  minimapCanvas.style.display = isShown ? 'block' : 'none';
+  if (!isShown) return;
+  const size = minimapCanvas.clientWidth;
+  if (size === 0) return;
+  const ctx = minimapCanvas.getContext('2d');
+  if (!ctx) return;
+  if (minimapOutlineSource !== sampledPts) rebuildMinimapOutline();
+
+  const dpr = Math.min(window.devicePixelRatio || 1, 2);
+  const pixelSize = Math.round(size * dpr); // canvas sizes are integers
+  if (minimapCanvas.width !== pixelSize) {
+    minimapCanvas.width = pixelSize;
+    minimapCanvas.height = pixelSize;
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, size, size);
+  ctx.fillStyle = 'rgba(0,0,0,0.35)';
+  ctx.beginPath();
+  ctx.arc(size / 2, size / 2, size / 2, 0, Math.PI * 2);
+  ctx.fill();
+
+  // World XZ -> map: north (-Z) up, or rotated so the heading points up
+  const scale = (size / 2 - MINIMAP_PAD) / minimapRadius;
+  const riderIdx = distanceToIndex(rideProgressS);
+  const tangent = tangentAtIndex(riderIdx);
+  const rotation =
+    minimapMode === 'headingUp'
+      ? -Math.PI / 2 - Math.atan2(tangent.z, tangent.x)
+      : 0;
+  ctx.translate(size / 2, size / 2);
+  ctx.rotate(rotation);
+  const mapX = (x: number) => (x - minimapCenterX) * scale;
+  const mapY = (z: number) => (z - minimapCenterZ) * scale;
+  const dot = (x: number, z: number, radius: number, color: string) => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(mapX(x), mapY(z), radius, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+  ctx.strokeStyle = 'rgba(205,231,255,0.8)';
+  ctx.lineWidth = 2;
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  minimapOutline.forEach(({ x, z }, i) => {
+    if (i === 0) ctx.moveTo(mapX(x), mapY(z));
+    else ctx.lineTo(mapX(x), mapY(z));
+  });
+  ctx.stroke();
+
+  // Start/finish line
+  const start = sampledPts[0];
+  dot(start.x, start.z, 3, '#ffffff');
+
+  // Sharp turns; the next few ahead are highlighted
+  const sharpTurns = sAtPoint
+    .map((sPoint, i) => ({ sPoint, angle: turnAngle[i] ?? 0 }))
+    .filter(({ angle }) => angle >= MINIMAP_SHARP_TURN_DEGREES)
+    .map(({ sPoint }) => ({ sPoint, ahead: distanceAhead(sPoint) }))
+    .sort((a, b) => a.ahead - b.ahead);
+  let upcomingCount = 0;
+  sharpTurns.forEach(({ sPoint, ahead }) => {
+    const point = sampledPts[distanceToIndex(sPoint)];
+    const isUpcoming = ahead > 0 && upcomingCount < MINIMAP_UPCOMING_TURNS;
+    if (isUpcoming) upcomingCount++;
+    dot(
+      point.x,
+      point.z,
+      isUpcoming ? 4 : 2.5,
+      isUpcoming ? '#ff9a7a' : 'rgba(255,154,122,0.4)'
+    );
+  });
+
+  if (ghostCart.visible) {
+    dot(ghostCart.position.x, ghostCart.position.z, 4, 'rgba(180,220,255,0.7)');
+  }
+  const rider = sampledPts[riderIdx];
+  dot(rider.x, rider.z, 5, '#ffdd57');
+
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.fillStyle = '#cde7ff';
+  ctx.font = 'bold 11px system-ui, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(
+    `${Math.round(rideProgressFraction() * 100)}%`,
+    size / 2,
+    size - 4
+  );
+}
+
+minimapModeInput?.addEventListener('change', () => {
+  const value = minimapModeInput.value as MinimapMode;
+  minimapMode = ['off', 'northUp', 'headingUp'].includes(value)
+    ? value
+    : 'headingUp';
+  dbg(`Input: Minimap = ${minimapMode}`);
+});
+
+/* ============================================================================
+   SECTION: TURN WARNINGS (HUD CHEVRONS BEFORE SHARP CONTROL POINTS)
+============================================================================ */
+
+interface TurnWarningConfig {
+  enabled: boolean;
+  distanceMeters: number; // warning shows this far before the control point
+  minAngleDegrees: number; // smaller turns get no warning
+}
+
+const turnWarningConfig: TurnWarningConfig = {
+  enabled: true,
+  distanceMeters: 20,
+  minAngleDegrees: 90,
+};
+
+// Chevron count and colour per ANGLE_BUCKETS band, gentlest first
+const TURN_WARNING_BANDS = [
+  { chevrons: 1, color: '#cde7ff' },
+  { chevrons: 1, color: '#cde7ff' },
+  { chevrons: 1, color: '#ffe07a' },
+  { chevrons: 2, color: '#ffc04d' },
+  { chevrons: 3, color: '#ff9a4d' },
+  { chevrons: 3, color: '#ff6b4d' },
+  { chevrons: 4, color: '#ff3b3b' },
+];
+
+const turnWarningElement = document.getElementById(
+  'turnWarning'
+) as HTMLDivElement;
+const turnWarningChevronsElement = document.getElementById(
+  'turnWarningChevrons'
+) as HTMLSpanElement;
+const turnWarningBandElement = document.getElementById(
+  'turnWarningBand'
+) as HTMLSpanElement;
+const turnWarningDistanceElement = document.getElementById(
+  'turnWarningDistance'
+) as HTMLSpanElement;
+let turnWarningShownKey = '';
+
+/* Turn direction at a control point seen from above: -1 left, 1 right */
+function turnDirectionAtPoint(i: number) {
+  const n = sCurveControlPoints.length;
+  const prev = sCurveControlPoints[(i - 1 + n) % n];
+  const point = sCurveControlPoints[i];
+  const next = sCurveControlPoints[(i + 1) % n];
+  const inX = point.x - prev.x,
+    inZ = point.z - prev.z;
+  const outX = next.x - point.x,
+    outZ = next.z - point.z;
+  // (in × out).y is positive for a left turn
+  return inZ * outX - inX * outZ > 0 ? -1 : 1;
+}
+
+/* The nearest control point ahead within the warning distance that turns
+   at least the minimum angle */
+function upcomingWarnedTurn() {
+  let best: { i: number; ahead: number } | null = null;
+  for (let i = 0; i < sAtPoint.length; i++) {
+    if ((turnAngle[i] ?? 0) < turnWarningConfig.minAngleDegrees) continue;
+    const ahead = distanceAhead(sAtPoint[i]);
+    if (ahead <= 0 || ahead > turnWarningConfig.distanceMeters) continue;
+    if (!best || ahead < best.ahead) best = { i, ahead };
+  }
+  return best;
+}
+
+function updateTurnWarning() {
+  if (!turnWarningElement) return;
+  const turn =
+    turnWarningConfig.enabled && isRideActive && totalLen > 0
+      ? upcomingWarnedTurn()
+      : null;
+  if (!turn) {
+    if (turnWarningShownKey) {
+      turnWarningElement.style.display = 'none';
+      turnWarningShownKey = '';
+    }
+    return;
+  }
+
+  const angle = turnAngle[turn.i];
+  const band = angleBucketIndex(angle);
+  const { chevrons, color } = TURN_WARNING_BANDS[band];
+  const direction = turnDirectionAtPoint(turn.i);
+  const distance = Math.ceil(turn.ahead);
+  // Only touch the DOM when what's shown changes
+  const key = `${turn.i}:${distance}`;
+  if (key === turnWarningShownKey) return;
+  turnWarningShownKey = key;
+
+  const lower = band > 0 ? ANGLE_BUCKETS[band - 1].maxDegrees : 0;
+  turnWarningElement.style.display = 'flex';
+  turnWarningElement.style.color = color;
+  turnWarningChevronsElement.textContent = (direction < 0 ? '‹' : '›').repeat(
+    chevrons
+  );
+  turnWarningBandElement.textContent = `${Math.round(angle)}° (${lower}–${
+    ANGLE_BUCKETS[band].maxDegrees
+  }°)`;
+  turnWarningDistanceElement.textContent = `${distance} m`;
+}
+
+const turnWarningToggle = document.getElementById(
+  'turnWarningToggle'
+) as HTMLInputElement;
+turnWarningToggle?.addEventListener('change', () => {
+  turnWarningConfig.enabled = turnWarningToggle.checked;
+  dbg(`Toggle: Turn Warnings = ${turnWarningConfig.enabled}`);
+});
+(
+  [
+    ['turnWarningDistanceInput', 'distanceMeters'],
+    ['turnWarningMinAngle', 'minAngleDegrees'],
+  ] as const
+).forEach(([id, key]) => {
+  const input = document.getElementById(id) as HTMLInputElement;
+  input?.addEventListener('input', () => {
+    const value = parseFloat(input.value);
+    if (!Number.isFinite(value) || value < 0) return;
+    turnWarningConfig[key] = value;
+    dbg(`Input: Turn warning ${key} = ${value}`);
+  });
+});
+
+/* ============================================================================
+   SECTION: RIDE DURATION (PREDICT + RESCALE SEGMENT SPEEDS)
+============================================================================ */
+
+const MIN_PROFILE_SPEED = 0.05; // m/s; keeps stalled samples from dividing by 0
+
+/* Seconds for one pass over the track: integral of ds / v(s) */
+function predictRideDurationSeconds(): number {
+  let seconds = 0;
+  for (let i = 1; i < speedProfile.length; i++) {
+    const ds = cumLen[i] - cumLen[i - 1];
+    const v = Math.max(
+      MIN_PROFILE_SPEED,
+      0.5 * (speedProfile[i - 1] + speedProfile[i])
+    );
+    seconds += ds / v;
+  }
+  return seconds;
+}
+
+function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) return '-';
+  const m = Math.floor(seconds / 60);
+  const sec = seconds - m * 60;
+  return m > 0 ? `${m}m ${sec.toFixed(1)}s` : `${sec.toFixed(1)}s`;
+}
+
+function updatePredictedDurationUI() {
+  if (!predictedDurationElement) return;
+  const lap = predictRideDurationSeconds();
+  predictedDurationElement.textContent =
+    isTrackClosed && lapTarget > 1
+      ? `${formatDuration(lap)} per lap, ${formatDuration(lap * lapTarget)} for ${lapTarget} laps`
+      : formatDuration(lap);
+}
+
+/* Rescale segSpeeds so one pass takes targetSeconds. 'scale' multiplies every
+   segment by the same factor; 'cap' only lowers segments above a common speed
+   limit (so it can lengthen a ride but never shorten it). Returns the
+   predicted duration achieved. */
+function fitSegmentSpeedsToDuration(
+  targetSeconds: number,
+  mode: 'scale' | 'cap'
+): number {
+  const original = segSpeeds.slice();
+  if (mode === 'scale') {
+    // Exact in one step for the angle model; the physics model's curvature
+    // limits do not scale, so iterate a few times.
+    for (let iter = 0; iter < 8; iter++) {
+      const current = predictRideDurationSeconds();
+      const factor = current / targetSeconds;
+      if (!Number.isFinite(factor) || Math.abs(factor - 1) < 0.002) break;
+      segSpeeds = segSpeeds.map((v) => v * factor);
+      rebuildSpeedProfile();
+    }
+  } else {
+    // Binary search the cap: a lower cap means a longer ride
+    const applyCap = (cap: number) => {
+      segSpeeds = original.map((v) => Math.min(v, cap));
+      rebuildSpeedProfile();
+      return predictRideDurationSeconds();
+    };
+    let lo = MIN_PROFILE_SPEED,
+      hi = Math.max(...original);
+    if (applyCap(hi) > targetSeconds) {
+      dbg('Duration: cap mode cannot make the ride shorter');
+    } else {
+      for (let iter = 0; iter < 30; iter++) {
+        const mid = 0.5 * (lo + hi);
+        if (applyCap(mid) > targetSeconds) lo = mid;
+        else hi = mid;
+      }
+      applyCap(hi);
+    }
+  }
+  segSpeeds = segSpeeds.map((v) => Math.round(v * 100) / 100);
+  rebuildSpeedProfile();
+  return predictRideDurationSeconds();
+}
+
+applyDurationButton?.addEventListener('click', () => {
+  const target = parseFloat(durationInput?.value ?? '');
+  if (!Number.isFinite(target) || target <= 0 || totalLen <= 0) return;
+  // On closed circuits the target covers all laps of the ride
+  const laps = isTrackClosed && lapTarget > 0 ? lapTarget : 1;
+  const mode = durationModeInput?.value === 'cap' ? 'cap' : 'scale';
+  const achieved = fitSegmentSpeedsToDuration(target / laps, mode);
+  renderSegmentSpeedTable();
+  dbg(
+    `Duration: target ${target}s (${mode}) -> predicted ${(achieved * laps).toFixed(1)}s`
+  );
+});
+
 window.addEventListener('resize', () => {
   rideCamera.aspect = window.innerWidth / window.innerHeight;
   rideCamera.updateProjectionMatrix();
@@ -1912,10 +6366,14 @@ loopCheckbox.addEventListener('change', () =>
 );
 
 function renderLoop() {
-  const deltaSeconds = frameClock.getDelta();
+  // Clamped so one long frame (a stall, a backgrounded tab) can't skip track
+  // or count as time spent outside the target; zero while paused
+  const frameSeconds = Math.min(frameClock.getDelta(), MAX_FRAME_SECONDS);
+  const deltaSeconds = isRidePaused ? 0 : frameSeconds;
+  updateCameraDynamics(deltaSeconds);
 
   const needleNormalized = clampNumber(
-    (rollRelativeDegreesSmoothed * yawSensitivity) / maxRollDegrees,
+    updateSteeringInput(deltaSeconds) * yawSensitivity,
     -1,
     1
   );
@@ -1930,29 +6388,52 @@ function renderLoop() {
     const mat = roadMesh.material as THREE.MeshStandardMaterial;
     if (mat.userData.shader) {
       mat.userData.shader.uniforms.u_cartDistance.value = rideProgressS;
+      mat.userData.shader.uniforms.u_trackLength.value = totalLen;
+      mat.userData.shader.uniforms.u_closed.value = isTrackClosed;
     }
   }
 
   if (isRideActive) {
     // 1. Get the current speed in meters/sec from our speed profile function
     const currentSpeed = (currentSpeedForHud = speedAtS(rideProgressS));
+    rideElapsedSeconds += deltaSeconds;
     // 2. Advance our distance along the curve by speed * time
     rideProgressS += currentSpeed * deltaSeconds;
 
-    // 3. Handle looping
+    // 3. Handle laps. Closed circuits run lapTarget laps (endless when
+    // looping); open tracks only restart when looping. Score carries over.
     if (rideProgressS >= totalLen) {
-      if (isRideLooping) {
+      const hasMoreLaps = isTrackClosed
+        ? isRideLooping || lapTarget <= 0 || currentLap < lapTarget
+        : isRideLooping;
+      if (hasMoreLaps) {
         rideProgressS %= totalLen;
-        // Reset scoring for the new loop
-        playerScore = 0;
-        playerHearts = 3;
-        heartsTextElement.textContent = '❤❤❤';
+        currentLap += 1;
+        updateLapHud();
+        dbg(`Lap ${currentLap} started (score ${playerScore})`);
       } else {
         rideProgressS = totalLen;
         isRideActive = false;
+        stopGyroRecording();
         if (successModalElement && successScoreElement) {
+          const accuracy = rideAccuracy();
           successScoreElement.textContent = String(playerScore);
+          if (successGradeElement) {
+            successGradeElement.textContent = gradeForAccuracy(accuracy);
+          }
+          prepareLeaderboardEntry(gradeForAccuracy(accuracy));
+          finishGhostRecording(needleNormalized);
+          if (successAccuracyElement) {
+            successAccuracyElement.textContent = `${(accuracy * 100).toFixed(
+              0
+            )}%`;
+          }
           successModalElement.style.display = 'grid';
+          dbg(
+            `Ride complete: score ${playerScore}, accuracy ${(
+              accuracy * 100
+            ).toFixed(1)}%`
+          );
         }
       }
     }
@@ -1969,22 +6450,36 @@ function renderLoop() {
     // Get position from the correct, elevated sampled points
     const cartIdx = distanceToIndex(rideProgressS);
     const cartPos = sampledPts[cartIdx];
-    const cartTangent =
-      cartIdx < sampledPts.length - 1
-        ? new THREE.Vector3().subVectors(sampledPts[cartIdx + 1], cartPos)
-        : new THREE.Vector3().subVectors(cartPos, sampledPts[cartIdx - 1]);
-    cartTangent.normalize();
-    cart.position.copy(cartPos);
+    const cartTangent = tangentAtIndex(cartIdx);
+    cart.position
+      .copy(cartPos)
+      .add(lateralOffsetAtIndex(cartIdx, cartTangent, cameraOffsetCurrent));
+    // The outside views need the rider in shot
+    cart.visible = cartVisible || isThirdPersonCameraMode();
     cartBody.setRotationFromQuaternion(
-      new THREE.Quaternion().setFromUnitVectors(Y_AXIS, cartTangent)
+      new THREE.Quaternion()
+        .setFromAxisAngle(cartTangent, sampledBank[cartIdx] ?? 0)
+        .multiply(
+          new THREE.Quaternion().setFromUnitVectors(Y_AXIS, cartTangent)
+        )
     );
     // --- END: FIX ---
+    recordGhostSample(needleNormalized, deltaSeconds);
   } else {
-    orbitControls.enabled = true;
-    orbitControls.update();
+    // A mode switch eases the camera over before orbiting resumes
+    orbitControls.enabled =
+      !isDraggingControlPoint && !isCameraTransitionActive;
+    if (!isCameraTransitionActive) orbitControls.update();
   }
+  stepCameraTransition(frameSeconds);
 
   updateHudAndScoring(needleNormalized, deltaSeconds);
+  updateGhostPlayback();
+  updateRangeCalibrationWizard();
+  drawSpeedChart();
+  drawMinimap();
+  updateTurnWarning();
+  ensureTargetLine();
 
   // Rotate steering wheel overlay based on needle position
   if (steeringWheelUiElement) {